@@ -1,15 +1,18 @@
 /**
  * Netlify Function: Callback endpoint
- * Handles Spotify OAuth callback and exchanges authorization code for access token
+ * Handles Spotify OAuth callback, exchanges the authorization code for tokens
+ * and stores them in the encrypted session cookie
  */
 
 import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
-import { exchangeCodeForToken, SpotifyAuthConfig } from '../../src/oauth.js';
+import { exchangeCodeForToken, sessionFromTokens } from '../../src/oauth.js';
+import { authConfigFromEnvironment, sessionCookie } from '../../src/session.js';
+import { clearOAuthStateCookie, verifyOAuthState } from '../../src/oauth-state.js';
 import { handleError, ValidationError } from '../../src/error-handler.js';
 import { validateEnvironment } from '../../src/env-validator.js';
 
 /**
- * Callback handler - exchanges authorization code for access token
+ * Callback handler - exchanges authorization code for tokens and starts the session
  * Requirements: 1.2, 1.3, 1.4, 6.3
  */
 export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResponse> => {
@@ -35,22 +38,33 @@ export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResp
       });
     }
 
-    // Configure OAuth
-    const config: SpotifyAuthConfig = {
-      clientId: env.SPOTIFY_CLIENT_ID,
-      clientSecret: env.SPOTIFY_CLIENT_SECRET,
-      redirectUri: env.SPOTIFY_REDIRECT_URI,
-      scopes: [], // Not needed for token exchange
-    };
+    // Only accept the login this browser started (CSRF protection)
+    const { codeVerifier } = verifyOAuthState(
+      event.headers,
+      event.queryStringParameters?.state,
+      env.SESSION_SECRET
+    );
 
     // Exchange authorization code for access token (Requirements 1.2, 1.3)
-    const tokenResponse = await exchangeCodeForToken(code, config);
+    const tokenResponse = await exchangeCodeForToken(
+      code,
+      authConfigFromEnvironment(env),
+      codeVerifier
+    );
 
-    // Redirect to frontend with token (Requirement 1.3)
+    // Keep the tokens in the session cookie rather than the URL, so they stay
+    // out of browser history and logs, and redirect to the frontend (Requirement 1.3)
     return {
       statusCode: 302,
       headers: {
-        Location: `/?access_token=${tokenResponse.access_token}`,
+        'Location': '/?logged_in=true',
+        'Cache-Control': 'no-store',
+      },
+      multiValueHeaders: {
+        'Set-Cookie': [
+          sessionCookie(sessionFromTokens(tokenResponse), env.SESSION_SECRET),
+          clearOAuthStateCookie(),
+        ],
       },
       body: '',
     };
@@ -64,6 +78,8 @@ export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResp
       statusCode,
       headers: {
         'Content-Type': 'application/json',
+        // The login is over either way
+        'Set-Cookie': clearOAuthStateCookie(),
       },
       body: JSON.stringify(body),
     };
@@ -0,0 +1,70 @@
+/**
+ * Netlify Function: Commit Playlist endpoint
+ * Creates the playlist from a reviewed preview, with the track list as edited
+ */
+
+import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { CommitPlaylistRequest, handleCommitPlaylist } from '../../src/index.js';
+import { handleError, ValidationError } from '../../src/error-handler.js';
+import { validateEnvironment } from '../../src/env-validator.js';
+import { authenticateRequest, withSessionCookie } from '../../src/session.js';
+
+/**
+ * Commit handler - expects a POST with a JSON body holding artistName, year,
+ * trackUris and, optionally, yearsUsed, show and encoreStartsAt from the preview
+ */
+export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers: {
+        'Allow': 'POST',
+      },
+      body: '',
+    };
+  }
+
+  let setCookie: string | undefined;
+
+  try {
+    const env = validateEnvironment();
+
+    let body: Omit<CommitPlaylistRequest, 'accessToken'>;
+    try {
+      body = JSON.parse(event.body ?? '');
+    } catch {
+      throw new ValidationError('Request body must be JSON', { field: 'body' });
+    }
+
+    const auth = await authenticateRequest(event, env, body?.provider);
+    setCookie = auth.setCookie;
+
+    const result = await handleCommitPlaylist({ ...body, accessToken: auth.accessToken });
+
+    return withSessionCookie(
+      {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(result),
+      },
+      setCookie
+    );
+  } catch (error) {
+    const { statusCode, body } = handleError(
+      error instanceof Error ? error : new Error('Unknown error')
+    );
+
+    return withSessionCookie(
+      {
+        statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      },
+      setCookie
+    );
+  }
+};
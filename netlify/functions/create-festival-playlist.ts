@@ -0,0 +1,72 @@
+/**
+ * Netlify Function: Create Festival Playlist endpoint
+ * Creates one playlist covering a festival lineup from each artist's average setlist
+ */
+
+import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { CreateFestivalPlaylistRequest, handleCreateFestivalPlaylist } from '../../src/index.js';
+import { handleError, ValidationError } from '../../src/error-handler.js';
+import { validateEnvironment } from '../../src/env-validator.js';
+import { connectCacheStore } from '../../src/cache-store.js';
+import { authenticateRequest, withSessionCookie } from '../../src/session.js';
+
+/**
+ * Festival handler - expects a POST with a JSON body holding the artists in
+ * running order and, optionally, festivalName, songsPerArtist and order
+ */
+export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers: {
+        'Allow': 'POST',
+      },
+      body: '',
+    };
+  }
+
+  let setCookie: string | undefined;
+
+  try {
+    const env = validateEnvironment();
+    connectCacheStore(event);
+
+    let body: Omit<CreateFestivalPlaylistRequest, 'accessToken'>;
+    try {
+      body = JSON.parse(event.body ?? '');
+    } catch {
+      throw new ValidationError('Request body must be JSON', { field: 'body' });
+    }
+
+    const auth = await authenticateRequest(event, env, body?.provider);
+    setCookie = auth.setCookie;
+
+    const result = await handleCreateFestivalPlaylist({ ...body, accessToken: auth.accessToken });
+
+    return withSessionCookie(
+      {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(result),
+      },
+      setCookie
+    );
+  } catch (error) {
+    const { statusCode, body } = handleError(
+      error instanceof Error ? error : new Error('Unknown error')
+    );
+
+    return withSessionCookie(
+      {
+        statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      },
+      setCookie
+    );
+  }
+};
@@ -3,116 +3,93 @@
  * Main endpoint that orchestrates the entire playlist creation workflow
  */
 
-import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions';
-import { handleCreatePlaylist, CreatePlaylistRequest } from '../../src/index.js';
-import { handleError, ValidationError } from '../../src/error-handler.js';
+import { Handler, HandlerEvent, HandlerContext, HandlerResponse } from '@netlify/functions';
+import {
+  handleCreatePlaylist,
+  handleCreateSetlistPlaylist,
+  CreatePlaylistResponse,
+} from '../../src/index.js';
+import { handleError } from '../../src/error-handler.js';
+import { connectCacheStore } from '../../src/cache-store.js';
+import { parsePlaylistQuery, parseProvider } from '../../src/request-parser.js';
+import { authenticateRequest, withSessionCookie } from '../../src/session.js';
 import { validateEnvironment } from '../../src/env-validator.js';
 
 /**
- * Create playlist handler - orchestrates the full workflow
+ * Create playlist handler - orchestrates the full workflow. Expects a POST,
+ * since it creates or overwrites playlists; parameters stay in the query string.
  * Requirements: 2.1, 2.2, 3.1, 4.1, 4.5
  */
 export const handler: Handler = async (
   event: HandlerEvent,
   context: HandlerContext
-) => {
-  try {
-    // Validate environment variables (Requirement 6.3)
-    validateEnvironment();
-
-    // Parse query parameters (Requirements 2.1, 2.2)
-    const artistId = event.queryStringParameters?.artistId;
-    const artistName = event.queryStringParameters?.artistName;
-    const yearParam = event.queryStringParameters?.year;
-
-    // Validate required parameters
-    if (!artistId) {
-      throw new ValidationError('artistId query parameter is required', {
-        field: 'artistId',
-      });
-    }
-
-    if (!artistName) {
-      throw new ValidationError('artistName query parameter is required', {
-        field: 'artistName',
-      });
-    }
-
-    // Parse optional year parameter
-    let year: number | undefined;
-    if (yearParam) {
-      year = parseInt(yearParam, 10);
-      if (isNaN(year)) {
-        throw new ValidationError('year parameter must be a valid number', {
-          field: 'year',
-          value: yearParam,
-        });
-      }
-    }
-
-    // Extract access token from request
-    // Try Authorization header first, then fall back to query parameter
-    let accessToken: string | undefined;
+): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers: {
+        'Allow': 'POST',
+      },
+      body: '',
+    };
+  }
 
-    // Check Authorization header (Bearer token)
-    const authHeader = event.headers?.authorization || event.headers?.Authorization;
-    if (authHeader) {
-      const match = authHeader.match(/^Bearer\s+(.+)$/i);
-      if (match) {
-        accessToken = match[1];
-      }
-    }
+  let setCookie: string | undefined;
 
-    // Fall back to query parameter if header not present
-    if (!accessToken) {
-      accessToken = event.queryStringParameters?.access_token;
-    }
+  try {
+    // Validate environment variables (Requirement 6.3)
+    const env = validateEnvironment();
+    connectCacheStore(event);
 
-    if (!accessToken) {
-      throw new ValidationError(
-        'Access token is required (provide via Authorization header or access_token query parameter)',
-        { field: 'access_token' }
-      );
-    }
+    // Use the session's access token, refreshed if it has expired
+    const auth = await authenticateRequest(
+      event,
+      env,
+      parseProvider(event.queryStringParameters?.provider)
+    );
+    setCookie = auth.setCookie;
 
-    // Build request object
-    const request: CreatePlaylistRequest = {
-      artistId,
-      artistName,
-      year,
-      accessToken,
-    };
+    // Parse query parameters (Requirements 2.1, 2.2)
+    const query = parsePlaylistQuery(event.queryStringParameters ?? {}, auth.accessToken);
 
     // Call main orchestrator function (Requirements 3.1, 4.1)
-    const result = await handleCreatePlaylist(request);
+    const result: CreatePlaylistResponse = query.mode === 'setlist'
+      ? await handleCreateSetlistPlaylist(query.request)
+      : await handleCreatePlaylist(query.request);
 
     // Return JSON response (Requirement 4.5)
-    return {
-      statusCode: 200,
-      headers: {
-        'Content-Type': 'application/json',
+    return withSessionCookie(
+      {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(result),
       },
-      body: JSON.stringify(result),
-    };
+      setCookie
+    );
   } catch (error) {
     // Handle errors
     const { statusCode, body } = handleError(
       error instanceof Error ? error : new Error('Unknown error'),
       {
         artistId: event.queryStringParameters?.artistId,
-        artistName: event.queryStringParameters?.artistName,
+        setlist: event.queryStringParameters?.setlist,
         year: event.queryStringParameters?.year
           ? parseInt(event.queryStringParameters.year, 10)
           : undefined,
       }
     );
 
-    return {
-      statusCode,
-      headers: {
-        'Content-Type': 'application/json',
+    return withSessionCookie(
+      {
+        statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
       },
-      body: JSON.stringify(body),
-    };
+      setCookie
+    );
   }
 };
@@ -0,0 +1,84 @@
+/**
+ * Netlify Function: Export Setlist endpoint
+ * Builds the setlist, optionally matches it to tracks, and returns
+ * it as CSV, JSON, M3U/M3U8 or XSPF instead of creating a playlist
+ */
+
+import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { exportAverageSetlist, exportSingleSetlist } from '../../src/index.js';
+import { handleError, ValidationError } from '../../src/error-handler.js';
+import { validateEnvironment } from '../../src/env-validator.js';
+import { connectCacheStore } from '../../src/cache-store.js';
+import { parsePlaylistQuery, parseProvider } from '../../src/request-parser.js';
+import { authenticateRequest, withSessionCookie } from '../../src/session.js';
+import { EXPORT_FORMATS, isExportFormat, renderExport } from '../../src/setlist-export.js';
+
+/**
+ * Export handler - accepts the same parameters as create-playlist, plus
+ * format (defaults to json) and match=true to include track matches.
+ * A login or access token is only needed when matching.
+ */
+export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResponse> => {
+  let setCookie: string | undefined;
+
+  try {
+    const env = validateEnvironment();
+    const params = event.queryStringParameters ?? {};
+
+    const format = params.format ?? 'json';
+    if (!isExportFormat(format)) {
+      throw new ValidationError(`format must be one of ${EXPORT_FORMATS.join(', ')}`, {
+        field: 'format',
+        value: format,
+      });
+    }
+
+    const match = params.match === 'true';
+    let accessToken = '';
+    if (match) {
+      connectCacheStore(event);
+      const auth = await authenticateRequest(event, env, parseProvider(params.provider));
+      setCookie = auth.setCookie;
+      accessToken = auth.accessToken;
+    }
+
+    const query = parsePlaylistQuery(params, accessToken);
+    const data = query.mode === 'setlist'
+      ? await exportSingleSetlist(query.request, match)
+      : await exportAverageSetlist(query.request, match);
+
+    const { contentType, filename, body } = renderExport(data, format);
+
+    return withSessionCookie(
+      {
+        statusCode: 200,
+        headers: {
+          'Content-Type': contentType,
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+        body,
+      },
+      setCookie
+    );
+  } catch (error) {
+    const { statusCode, body } = handleError(
+      error instanceof Error ? error : new Error('Unknown error'),
+      {
+        artistId: event.queryStringParameters?.artistId,
+        setlist: event.queryStringParameters?.setlist,
+        format: event.queryStringParameters?.format,
+      }
+    );
+
+    return withSessionCookie(
+      {
+        statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      },
+      setCookie
+    );
+  }
+};
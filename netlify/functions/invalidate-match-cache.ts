@@ -0,0 +1,75 @@
+/**
+ * Netlify Function: Invalidate Match Cache endpoint
+ * Drops cached song-to-track matches of an artist, or of one of their songs,
+ * so the next playlist searches Spotify again
+ */
+
+import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { connectCacheStore, getCacheStore } from '../../src/cache-store.js';
+import { MATCH_CACHE_NAME, matchCachePrefix } from '../../src/match-cache.js';
+import { AuthenticationError, handleError, ValidationError } from '../../src/error-handler.js';
+import { safeEqual } from '../../src/oauth-state.js';
+
+/**
+ * Invalidation handler - expects POST or DELETE with ?artist= and optionally &song=
+ *
+ * Guarded by the CACHE_ADMIN_TOKEN environment variable, which must be sent
+ * as a Bearer token; without it the endpoint is disabled.
+ */
+export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'POST' && event.httpMethod !== 'DELETE') {
+    return {
+      statusCode: 405,
+      headers: {
+        'Allow': 'POST, DELETE',
+      },
+      body: '',
+    };
+  }
+
+  try {
+    const adminToken = process.env.CACHE_ADMIN_TOKEN;
+    if (!adminToken) {
+      throw new AuthenticationError('Cache invalidation is disabled (CACHE_ADMIN_TOKEN is not set)');
+    }
+    const authHeader = event.headers?.authorization || event.headers?.Authorization;
+    if (!safeEqual(authHeader ?? '', `Bearer ${adminToken}`)) {
+      throw new AuthenticationError('Invalid cache admin token');
+    }
+
+    const artist = event.queryStringParameters?.artist?.trim();
+    if (!artist) {
+      throw new ValidationError('artist query parameter is required', { field: 'artist' });
+    }
+    const song = event.queryStringParameters?.song?.trim() || undefined;
+
+    connectCacheStore(event);
+    const removed = await getCacheStore(MATCH_CACHE_NAME).deletePrefix(
+      matchCachePrefix(artist, song)
+    );
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ artist, ...(song ? { song } : {}), removed }),
+    };
+  } catch (error) {
+    const { statusCode, body } = handleError(
+      error instanceof Error ? error : new Error('Unknown error'),
+      {
+        artistName: event.queryStringParameters?.artist,
+        songName: event.queryStringParameters?.song,
+      }
+    );
+
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    };
+  }
+};
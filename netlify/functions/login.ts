@@ -4,18 +4,17 @@
  */
 
 import { Handler, HandlerEvent, HandlerContext, HandlerResponse } from '@netlify/functions';
-import { generateAuthUrl, SpotifyAuthConfig } from '../../src/oauth.js';
+import {
+  codeChallengeFor,
+  generateAuthUrl,
+  generateCodeVerifier,
+  generateState,
+  SpotifyAuthConfig,
+} from '../../src/oauth.js';
+import { OAUTH_STATE_MAX_AGE_SECONDS, oauthStateCookie } from '../../src/oauth-state.js';
 import { handleError } from '../../src/error-handler.js';
 import { validateEnvironment } from '../../src/env-validator.js';
 
-/**
- * Generates a random state parameter for CSRF protection
- */
-function generateState(): string {
-  return Math.random().toString(36).substring(2, 15) + 
-         Math.random().toString(36).substring(2, 15);
-}
-
 /**
  * Login handler - redirects to Spotify authorization URL
  * Requirements: 1.1, 6.3
@@ -36,18 +35,24 @@ export const handler: Handler = async (
       scopes: ['playlist-modify-private', 'playlist-modify-public'],
     };
 
-    // Generate state parameter for CSRF protection
+    // Generate state parameter for CSRF protection, and a PKCE code verifier
     const state = generateState();
+    const codeVerifier = generateCodeVerifier();
 
     // Generate authorization URL (Requirement 1.1)
-    const authUrl = generateAuthUrl(config, state);
+    const authUrl = generateAuthUrl(config, state, codeChallengeFor(codeVerifier));
 
-    // Redirect to Spotify authorization page
+    // Redirect to Spotify authorization page, binding the state to this
+    // browser so the callback can verify it
     return {
       statusCode: 302,
       headers: {
         'Location': authUrl,
         'Cache-Control': 'no-cache',
+        'Set-Cookie': oauthStateCookie(
+          { state, codeVerifier, expiresAt: Date.now() + OAUTH_STATE_MAX_AGE_SECONDS * 1000 },
+          env.SESSION_SECRET
+        ),
       },
       body: '',
     };
@@ -0,0 +1,31 @@
+/**
+ * Netlify Function: Logout endpoint
+ * Ends the session by clearing the session cookie
+ */
+
+import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { clearSessionCookie } from '../../src/session.js';
+
+/**
+ * Logout handler - expects a POST; the Spotify tokens are discarded with the cookie
+ */
+export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers: {
+        'Allow': 'POST',
+      },
+      body: '',
+    };
+  }
+
+  return {
+    statusCode: 204,
+    headers: {
+      'Set-Cookie': clearSessionCookie(),
+      'Cache-Control': 'no-store',
+    },
+    body: '',
+  };
+};
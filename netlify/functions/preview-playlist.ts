@@ -0,0 +1,67 @@
+/**
+ * Netlify Function: Preview Playlist endpoint
+ * Builds the setlist and matches it to Spotify tracks without creating a
+ * playlist, so the matches can be reviewed and edited first
+ */
+
+import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { PlaylistPreview, previewPlaylist, previewSetlistPlaylist } from '../../src/index.js';
+import { handleError } from '../../src/error-handler.js';
+import { validateEnvironment } from '../../src/env-validator.js';
+import { connectCacheStore } from '../../src/cache-store.js';
+import { parsePlaylistQuery, parseProvider } from '../../src/request-parser.js';
+import { authenticateRequest, withSessionCookie } from '../../src/session.js';
+
+/**
+ * Preview handler - accepts the same parameters as create-playlist
+ */
+export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResponse> => {
+  let setCookie: string | undefined;
+
+  try {
+    const env = validateEnvironment();
+    connectCacheStore(event);
+
+    const auth = await authenticateRequest(
+      event,
+      env,
+      parseProvider(event.queryStringParameters?.provider)
+    );
+    setCookie = auth.setCookie;
+    const query = parsePlaylistQuery(event.queryStringParameters ?? {}, auth.accessToken);
+
+    const result: PlaylistPreview = query.mode === 'setlist'
+      ? await previewSetlistPlaylist(query.request)
+      : await previewPlaylist(query.request);
+
+    return withSessionCookie(
+      {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(result),
+      },
+      setCookie
+    );
+  } catch (error) {
+    const { statusCode, body } = handleError(
+      error instanceof Error ? error : new Error('Unknown error'),
+      {
+        artistId: event.queryStringParameters?.artistId,
+        setlist: event.queryStringParameters?.setlist,
+      }
+    );
+
+    return withSessionCookie(
+      {
+        statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      },
+      setCookie
+    );
+  }
+};
@@ -0,0 +1,51 @@
+/**
+ * Netlify Function: Search Artists endpoint
+ * Looks up setlist.fm artists by name so users don't need to know their IDs
+ */
+
+import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { searchArtists } from '../../src/artist-search.js';
+import { handleError, ValidationError } from '../../src/error-handler.js';
+import { validateEnvironment } from '../../src/env-validator.js';
+import { connectCacheStore } from '../../src/cache-store.js';
+
+/**
+ * Search artists handler - returns MBID, name, sort name and disambiguation
+ */
+export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResponse> => {
+  try {
+    // Validate environment variables (Requirement 6.3)
+    const env = validateEnvironment();
+    connectCacheStore(event);
+
+    const name = event.queryStringParameters?.name?.trim();
+    if (!name) {
+      throw new ValidationError('name query parameter is required', {
+        field: 'name',
+      });
+    }
+
+    const result = await searchArtists(name, env.SETLISTFM_API_KEY);
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(result),
+    };
+  } catch (error) {
+    const { statusCode, body } = handleError(
+      error instanceof Error ? error : new Error('Unknown error'),
+      { artistName: event.queryStringParameters?.name }
+    );
+
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    };
+  }
+};
@@ -0,0 +1,80 @@
+/**
+ * Netlify Function: Session endpoint
+ * Tells the page whether the user is logged in, as the session cookie is
+ * not readable from JavaScript
+ */
+
+import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { AuthenticationError, handleError } from '../../src/error-handler.js';
+import { validateEnvironment } from '../../src/env-validator.js';
+import { ensureFreshSession } from '../../src/oauth.js';
+import {
+  authConfigFromEnvironment,
+  clearSessionCookie,
+  readSession,
+  sessionCookie,
+} from '../../src/session.js';
+
+/**
+ * Session handler - reports whether a session exists, refreshing its access
+ * token if it has expired and clearing it if it can no longer be refreshed
+ */
+export const handler: Handler = async (event: HandlerEvent): Promise<HandlerResponse> => {
+  try {
+    const env = validateEnvironment();
+
+    const session = readSession(event.headers, env.SESSION_SECRET);
+    if (!session) {
+      return {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-store',
+        },
+        body: JSON.stringify({ authenticated: false }),
+      };
+    }
+
+    let fresh;
+    try {
+      fresh = await ensureFreshSession(session, authConfigFromEnvironment(env));
+    } catch (error) {
+      if (!(error instanceof AuthenticationError)) {
+        throw error;
+      }
+      return {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-store',
+          'Set-Cookie': clearSessionCookie(),
+        },
+        body: JSON.stringify({ authenticated: false }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+        ...(fresh.refreshed
+          ? { 'Set-Cookie': sessionCookie(fresh.session, env.SESSION_SECRET) }
+          : {}),
+      },
+      body: JSON.stringify({ authenticated: true, expiresAt: fresh.session.expiresAt }),
+    };
+  } catch (error) {
+    const { statusCode, body } = handleError(
+      error instanceof Error ? error : new Error('Unknown error')
+    );
+
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    };
+  }
+};
@@ -0,0 +1,132 @@
+/**
+ * Artist search for looking up setlist.fm artists by name or MBID
+ */
+
+import axios from 'axios';
+import { ExternalAPIError, DataNotFoundError, logError } from './error-handler.js';
+import { DEFAULT_TTL_SECONDS, getSetlistFm, PAST_YEAR_TTL_SECONDS } from './setlistfm-client.js';
+
+export interface Artist {
+  mbid: string;
+  name: string;
+  sortName: string;
+  disambiguation?: string;
+}
+
+export interface ArtistSearchResult {
+  artists: Artist[];
+  total: number;
+}
+
+interface SetlistFmArtist {
+  mbid: string;
+  name: string;
+  sortName: string;
+  disambiguation?: string;
+}
+
+interface SetlistFmArtistSearchResponse {
+  artist: SetlistFmArtist[];
+  total: number;
+  page: number;
+  itemsPerPage: number;
+}
+
+/**
+ * Maps a setlist.fm artist to the shape returned to callers
+ * @param artist - Artist as returned by setlist.fm
+ * @returns Artist with MBID, name, sort name and disambiguation
+ */
+function toArtist(artist: SetlistFmArtist): Artist {
+  return {
+    mbid: artist.mbid,
+    name: artist.name,
+    sortName: artist.sortName,
+    ...(artist.disambiguation ? { disambiguation: artist.disambiguation } : {}),
+  };
+}
+
+/**
+ * Searches setlist.fm for artists matching a name
+ * @param artistName - Name (or part of a name) to search for
+ * @param apiKey - setlist.fm API key
+ * @returns Matching artists ordered by relevance
+ * @throws ExternalAPIError if API is unavailable
+ */
+export async function searchArtists(
+  artistName: string,
+  apiKey: string
+): Promise<ArtistSearchResult> {
+  try {
+    const response = await getSetlistFm<SetlistFmArtistSearchResponse>(
+      '/search/artists',
+      { artistName, sort: 'relevance', p: 1 },
+      apiKey,
+      DEFAULT_TTL_SECONDS
+    );
+
+    // setlist.fm answers 404 when no artist matches the search
+    if (!response) {
+      return { artists: [], total: 0 };
+    }
+
+    const artists = (response.artist || []).map(toArtist);
+    return {
+      artists,
+      total: response.total ?? artists.length,
+    };
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const apiError = new ExternalAPIError(
+        `setlist.fm artist search failed: ${error.message}`,
+        'setlist.fm',
+        { statusCode: error.response?.status }
+      );
+      logError(apiError, { artistName });
+      throw apiError;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Looks up a single artist by MusicBrainz ID
+ * @param mbid - MusicBrainz ID of the artist
+ * @param apiKey - setlist.fm API key
+ * @returns The artist
+ * @throws DataNotFoundError if setlist.fm does not know the artist
+ * @throws ExternalAPIError if API is unavailable
+ */
+export async function getArtist(mbid: string, apiKey: string): Promise<Artist> {
+  let artist: SetlistFmArtist | null;
+  try {
+    // Artists practically never change, so they are cached as long as old setlists
+    artist = await getSetlistFm<SetlistFmArtist>(
+      `/artist/${mbid}`,
+      {},
+      apiKey,
+      PAST_YEAR_TTL_SECONDS
+    );
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const apiError = new ExternalAPIError(
+        `setlist.fm artist lookup failed: ${error.message}`,
+        'setlist.fm',
+        { statusCode: error.response?.status }
+      );
+      logError(apiError, { artistId: mbid });
+      throw apiError;
+    }
+    throw error;
+  }
+
+  if (!artist) {
+    const notFoundError = new DataNotFoundError(
+      `No artist found with ID ${mbid}`,
+      { artistId: mbid }
+    );
+    logError(notFoundError, { artistId: mbid });
+    throw notFoundError;
+  }
+  return toArtist(artist);
+}
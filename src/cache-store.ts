@@ -0,0 +1,180 @@
+/**
+ * Pluggable key-value cache with per-entry TTLs
+ *
+ * Netlify Blobs backs the cache in production; a directory of JSON files or
+ * process memory can stand in locally. Select one with CACHE_STORE
+ * ("blobs", "file" or "memory"); by default Netlify Blobs is used when the
+ * function was invoked with a Blobs context and memory otherwise.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { connectLambda, getStore } from '@netlify/blobs';
+
+export interface CacheStore {
+  /** Returns the value stored under the key, or null if it is missing or expired */
+  get<T>(key: string): Promise<T | null>;
+  /** Stores a value for the given number of seconds */
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+  /** Removes every entry whose key starts with the prefix and returns how many were removed */
+  deletePrefix(prefix: string): Promise<number>;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  /** Expiry as milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/** Default directory of the file store, relative to the working directory */
+const DEFAULT_CACHE_DIR = '.cache';
+
+/** Whether the current invocation carried a Netlify Blobs context */
+let blobsConnected = false;
+
+/** Memory stores by name, kept for as long as the function instance stays warm */
+const memoryStores = new Map<string, Map<string, CacheEntry<unknown>>>();
+
+/**
+ * Wraps a value with its expiry time
+ */
+function toEntry<T>(value: T, ttlSeconds: number): CacheEntry<T> {
+  return { value, expiresAt: Date.now() + ttlSeconds * 1000 };
+}
+
+/**
+ * Unwraps an entry, treating expired entries as missing
+ */
+function fromEntry<T>(entry: CacheEntry<T> | null | undefined): T | null {
+  if (!entry || entry.expiresAt <= Date.now()) {
+    return null;
+  }
+  return entry.value;
+}
+
+/**
+ * Creates a cache store held in process memory
+ * @param name - Store name; stores with the same name share their entries
+ * @returns Cache store
+ */
+export function createMemoryStore(name: string): CacheStore {
+  let entries = memoryStores.get(name);
+  if (!entries) {
+    entries = new Map();
+    memoryStores.set(name, entries);
+  }
+  const store = entries;
+
+  return {
+    async get<T>(key: string) {
+      return fromEntry(store.get(key) as CacheEntry<T> | undefined);
+    },
+    async set<T>(key: string, value: T, ttlSeconds: number) {
+      store.set(key, toEntry(value, ttlSeconds));
+    },
+    async deletePrefix(prefix: string) {
+      const keys = [...store.keys()].filter((key) => key.startsWith(prefix));
+      keys.forEach((key) => store.delete(key));
+      return keys.length;
+    },
+  };
+}
+
+/**
+ * Creates a cache store writing one JSON file per entry
+ * @param directory - Directory holding the entries; created on first write
+ * @returns Cache store
+ */
+export function createFileStore(directory: string): CacheStore {
+  const fileFor = (key: string) => path.join(directory, `${encodeURIComponent(key)}.json`);
+
+  return {
+    async get<T>(key: string) {
+      try {
+        const content = await fs.readFile(fileFor(key), 'utf8');
+        return fromEntry(JSON.parse(content) as CacheEntry<T>);
+      } catch {
+        return null;
+      }
+    },
+    async set<T>(key: string, value: T, ttlSeconds: number) {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(fileFor(key), JSON.stringify(toEntry(value, ttlSeconds)));
+    },
+    async deletePrefix(prefix: string) {
+      let files: string[];
+      try {
+        files = await fs.readdir(directory);
+      } catch {
+        return 0;
+      }
+      const matching = files.filter(
+        (file) => file.endsWith('.json') && decodeURIComponent(file.slice(0, -5)).startsWith(prefix)
+      );
+      await Promise.all(matching.map((file) => fs.rm(path.join(directory, file), { force: true })));
+      return matching.length;
+    },
+  };
+}
+
+/**
+ * Creates a cache store backed by Netlify Blobs
+ * @param name - Blob store name
+ * @returns Cache store
+ */
+export function createBlobsStore(name: string): CacheStore {
+  const store = getStore(name);
+
+  return {
+    async get<T>(key: string) {
+      return fromEntry((await store.get(key, { type: 'json' })) as CacheEntry<T> | null);
+    },
+    async set<T>(key: string, value: T, ttlSeconds: number) {
+      await store.setJSON(key, toEntry(value, ttlSeconds));
+    },
+    async deletePrefix(prefix: string) {
+      const { blobs } = await store.list({ prefix });
+      await Promise.all(blobs.map((blob) => store.delete(blob.key)));
+      return blobs.length;
+    },
+  };
+}
+
+/**
+ * Connects Netlify Blobs to the context of a function invocation
+ *
+ * Functions using the Lambda-style handler receive the Blobs credentials on
+ * the event, so this must run before a Blobs store is used.
+ *
+ * @param event - Function event
+ */
+export function connectCacheStore(event: {
+  blobs?: string;
+  headers: Record<string, string | undefined>;
+}): void {
+  if (event.blobs) {
+    connectLambda({ blobs: event.blobs, headers: event.headers as Record<string, string> });
+    blobsConnected = true;
+  }
+}
+
+/**
+ * Returns the configured cache store
+ * @param name - Store name, separating e.g. track matches from setlists
+ * @returns Cache store
+ * @throws Error if CACHE_STORE names an unknown store
+ */
+export function getCacheStore(name: string): CacheStore {
+  const kind = process.env.CACHE_STORE || (blobsConnected ? 'blobs' : 'memory');
+
+  switch (kind) {
+    case 'blobs':
+      return createBlobsStore(name);
+    case 'file':
+      return createFileStore(path.join(process.env.CACHE_DIR || DEFAULT_CACHE_DIR, name));
+    case 'memory':
+      return createMemoryStore(name);
+    default:
+      throw new Error(`Unknown CACHE_STORE "${kind}"; expected blobs, file or memory`);
+  }
+}
@@ -0,0 +1,440 @@
+/**
+ * Deezer API adapter of the music provider interface
+ *
+ * Deezer reports most failures with a 200 response carrying an error object,
+ * so every response is checked for one. Its rate limit (50 requests per 5
+ * seconds) is reported the same way and retried like a 429. The access token is sent as the
+ * access_token query parameter, as the API requires.
+ */
+
+import axios, { AxiosError } from 'axios';
+import {
+  AuthenticationError,
+  DataNotFoundError,
+  ExternalAPIError,
+  logError,
+} from './error-handler.js';
+import { RetryOptions, withRetry } from './http-retry.js';
+import { TrackCandidate } from './track-scorer.js';
+import { MusicProvider, PlaylistDetails, ProviderArtist, TrackQuery } from './music-provider.js';
+
+export interface DeezerProviderOptions {
+  /** Base URL of the API, e.g. a local fake server in tests */
+  baseUrl?: string;
+}
+
+const DEEZER_API_URL = 'https://api.deezer.com';
+
+/** Deezer track URIs, e.g. deezer:track:3135556 */
+const TRACK_URI = /^deezer:track:\d+$/;
+
+/** Keeps the songs parameter of add and remove requests to a sensible length */
+const MAX_TRACKS_PER_REQUEST = 100;
+
+/** Page size when listing playlists and their tracks */
+const PAGE_SIZE = 100;
+
+/** Error codes of the Deezer API */
+const QUOTA_EXCEEDED_CODE = 4;
+const INVALID_TOKEN_CODE = 300;
+const DATA_NOT_FOUND_CODE = 800;
+
+/**
+ * Track writes are only retried on rate limits: after a 5xx, Deezer may
+ * already have applied them, and retrying would add the tracks twice
+ */
+const TRACK_WRITE_RETRY: RetryOptions = { retryServerErrors: false };
+
+/** Number of artists fetched when resolving a name */
+const ARTIST_CANDIDATE_LIMIT = 10;
+
+interface DeezerErrorResponse {
+  error: { type: string; message: string; code: number };
+}
+
+interface DeezerPage<T> {
+  data: T[];
+  next?: string;
+}
+
+interface DeezerArtist {
+  id: number;
+  name: string;
+  nb_fan?: number;
+}
+
+interface DeezerTrack {
+  id: number;
+  title: string;
+  artist: { id: number; name: string };
+  album?: { title: string; cover_small?: string; cover_medium?: string };
+}
+
+interface DeezerPlaylist {
+  id: number;
+  title: string;
+  creator?: { id: number };
+}
+
+/**
+ * Checks whether a response body is a Deezer error object
+ */
+function isDeezerError(value: unknown): value is DeezerErrorResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Partial<DeezerErrorResponse>).error === 'object'
+  );
+}
+
+/**
+ * Turns a Deezer error object or a failed request into the error to throw, and logs it
+ * @param error - Deezer error object or error thrown by axios
+ * @param action - What was being done, for the message, e.g. "artist search"
+ * @param context - Additional context for the log
+ * @returns Error to throw; DataNotFoundError when Deezer knows no such item
+ */
+function toDeezerError(error: unknown, action: string, context: Record<string, unknown>): Error {
+  if (isDeezerError(error)) {
+    const { code, type, message } = error.error;
+    if (code === DATA_NOT_FOUND_CODE) {
+      return new DataNotFoundError(`Deezer has no data for this ${action}`, context);
+    }
+    if (code === INVALID_TOKEN_CODE || type === 'OAuthException') {
+      const authError = new AuthenticationError('Invalid or expired access token', { code });
+      logError(authError, context);
+      return authError;
+    }
+    const apiError = new ExternalAPIError(`Deezer ${action} failed: ${message}`, 'Deezer', {
+      code,
+    });
+    logError(apiError, context);
+    return apiError;
+  }
+  if (!axios.isAxiosError(error)) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+  if (error.response?.status === 401 || error.response?.status === 403) {
+    const authError = new AuthenticationError(
+      'Invalid or expired access token',
+      { statusCode: error.response.status }
+    );
+    logError(authError, context);
+    return authError;
+  }
+  const apiError = new ExternalAPIError(
+    `Deezer ${action} failed: ${error.message}`,
+    'Deezer',
+    { statusCode: error.response?.status }
+  );
+  logError(apiError, context);
+  return apiError;
+}
+
+/**
+ * Converts the number of fans to the 0 to 100 popularity scale used by Spotify,
+ * so the same popularity gap separates clear winners from ambiguous names:
+ * every tenfold of fans is worth 12.5 points, reaching 100 at 100 million fans
+ */
+function popularityOf(fans: number | undefined): number {
+  return Math.min(100, Math.round(Math.log10((fans ?? 0) + 1) * 12.5));
+}
+
+/**
+ * Maps a Deezer artist to the shape returned to callers
+ */
+function toProviderArtist(artist: DeezerArtist): ProviderArtist {
+  return {
+    id: String(artist.id),
+    name: artist.name,
+    popularity: popularityOf(artist.nb_fan),
+    genres: [],
+  };
+}
+
+/**
+ * Maps a Deezer track to the candidate shape the scorer expects. Deezer does
+ * not report whether an album is a single or a compilation.
+ */
+function toCandidate(track: DeezerTrack): TrackCandidate {
+  const images = [
+    ...(track.album?.cover_medium ? [{ url: track.album.cover_medium, width: 250 }] : []),
+    ...(track.album?.cover_small ? [{ url: track.album.cover_small, width: 56 }] : []),
+  ];
+  return {
+    uri: `deezer:track:${track.id}`,
+    name: track.title,
+    artists: [{ id: String(track.artist.id), name: track.artist.name }],
+    ...(track.album ? { album: { name: track.album.title, images } } : {}),
+  };
+}
+
+/**
+ * Takes the numeric track ID out of a Deezer track URI
+ */
+function trackIdOf(uri: string): string {
+  return uri.split(':')[2];
+}
+
+/**
+ * Quotes a search term, dropping quotes that would end it early
+ */
+function quoted(term: string): string {
+  return `"${term.replace(/"/g, '')}"`;
+}
+
+/**
+ * Creates the Deezer music provider
+ * @param options - Base URL of the API
+ * @returns Music provider calling the Deezer API
+ */
+export function createDeezerProvider(options: DeezerProviderOptions = {}): MusicProvider {
+  const baseUrl = options.baseUrl ?? DEEZER_API_URL;
+
+  /**
+   * Sends a request, retrying rate limits and server errors, and unwraps
+   * Deezer's error objects. A quota error is turned into a 429 so withRetry
+   * backs off instead of failing the request.
+   */
+  async function request<T>(
+    method: 'get' | 'post' | 'delete',
+    path: string,
+    accessToken: string,
+    params: Record<string, string | number | boolean> = {},
+    retry: RetryOptions = {}
+  ): Promise<T> {
+    const config = { params: { ...params, access_token: accessToken } };
+    const response = await withRetry(async () => {
+      const attempt = method === 'post'
+        ? await axios.post<T | DeezerErrorResponse>(`${baseUrl}${path}`, null, config)
+        : await axios[method]<T | DeezerErrorResponse>(`${baseUrl}${path}`, config);
+      if (isDeezerError(attempt.data) && attempt.data.error.code === QUOTA_EXCEEDED_CODE) {
+        throw new AxiosError(
+          attempt.data.error.message,
+          AxiosError.ERR_BAD_RESPONSE,
+          attempt.config,
+          attempt.request,
+          { ...attempt, status: 429 }
+        );
+      }
+      return attempt;
+    }, retry);
+    if (isDeezerError(response.data)) {
+      throw response.data;
+    }
+    return response.data;
+  }
+
+  /**
+   * Reads every page of a listing
+   */
+  async function listAll<T>(path: string, accessToken: string): Promise<T[]> {
+    const items: T[] = [];
+    for (let index = 0; ; index += PAGE_SIZE) {
+      const page = await request<DeezerPage<T>>('get', path, accessToken, {
+        index,
+        limit: PAGE_SIZE,
+      });
+      items.push(...page.data);
+      if (!page.next || page.data.length === 0) {
+        return items;
+      }
+    }
+  }
+
+  /**
+   * Sends the name, description and visibility of a playlist
+   */
+  async function sendDetails(
+    playlistId: string,
+    details: PlaylistDetails,
+    accessToken: string
+  ): Promise<void> {
+    await request('post', `/playlist/${playlistId}`, accessToken, {
+      title: details.name,
+      description: details.description,
+      ...(details.visibility
+        ? {
+            public: details.visibility === 'public',
+            collaborative: details.visibility === 'collaborative',
+          }
+        : {}),
+    });
+  }
+
+  return {
+    name: 'deezer',
+    label: 'Deezer',
+    maxTracksPerRequest: MAX_TRACKS_PER_REQUEST,
+
+    isTrackUri(uri) {
+      return TRACK_URI.test(uri);
+    },
+
+    // Deezer has no market filter, so query.market is ignored
+    async searchTracks(query: TrackQuery, accessToken) {
+      const q = `artist:${quoted(query.artistName)} track:${quoted(query.songName)}`;
+      try {
+        const page = await request<DeezerPage<DeezerTrack>>('get', '/search/track', accessToken, {
+          q: query.keyword ? `${q} ${query.keyword}` : q,
+          limit: query.limit,
+        });
+        return page.data.map(toCandidate);
+      } catch (error) {
+        throw toDeezerError(error, 'track search', {
+          songName: query.songName,
+          artistName: query.artistName,
+        });
+      }
+    },
+
+    async searchArtists(artistName, accessToken) {
+      try {
+        const page = await request<DeezerPage<DeezerArtist>>(
+          'get',
+          '/search/artist',
+          accessToken,
+          { q: artistName, limit: ARTIST_CANDIDATE_LIMIT }
+        );
+        return page.data.map(toProviderArtist);
+      } catch (error) {
+        throw toDeezerError(error, 'artist search', { artistName });
+      }
+    },
+
+    async getArtist(artistId, accessToken) {
+      try {
+        return toProviderArtist(
+          await request<DeezerArtist>('get', `/artist/${encodeURIComponent(artistId)}`, accessToken)
+        );
+      } catch (error) {
+        const deezerError = toDeezerError(error, 'artist lookup', { deezerArtistId: artistId });
+        if (deezerError instanceof DataNotFoundError) {
+          return null;
+        }
+        throw deezerError;
+      }
+    },
+
+    async getUserId(accessToken) {
+      try {
+        const user = await request<{ id: number }>('get', '/user/me', accessToken);
+        return String(user.id);
+      } catch (error) {
+        throw toDeezerError(error, 'user lookup', {});
+      }
+    },
+
+    async createPlaylist(userId, details, accessToken) {
+      try {
+        // Deezer only takes the title on creation; the rest is set afterwards
+        const { id } = await request<{ id: number }>(
+          'post',
+          `/user/${userId}/playlists`,
+          accessToken,
+          { title: details.name }
+        );
+        const playlistId = String(id);
+        await sendDetails(playlistId, { visibility: 'private', ...details }, accessToken);
+        return playlistId;
+      } catch (error) {
+        throw toDeezerError(error, 'playlist creation', { playlistName: details.name });
+      }
+    },
+
+    async updatePlaylist(playlistId, details, accessToken) {
+      try {
+        await sendDetails(playlistId, details, accessToken);
+      } catch (error) {
+        throw toDeezerError(error, 'playlist update', { playlistId, playlistName: details.name });
+      }
+    },
+
+    async findPlaylist(playlistId, accessToken) {
+      try {
+        const playlist = await request<DeezerPlaylist>(
+          'get',
+          `/playlist/${encodeURIComponent(playlistId)}`,
+          accessToken
+        );
+        // Without a creator the owner cannot be checked, so the playlist is not reused
+        return playlist.creator
+          ? { id: String(playlist.id), ownerId: String(playlist.creator.id) }
+          : null;
+      } catch (error) {
+        const deezerError = toDeezerError(error, 'playlist lookup', { playlistId });
+        if (deezerError instanceof DataNotFoundError) {
+          return null;
+        }
+        throw deezerError;
+      }
+    },
+
+    async findPlaylistByName(userId, name, accessToken) {
+      try {
+        const playlists = await listAll<DeezerPlaylist>('/user/me/playlists', accessToken);
+        const match = playlists.find(
+          (playlist) => playlist.title === name && String(playlist.creator?.id) === userId
+        );
+        return match ? String(match.id) : null;
+      } catch (error) {
+        throw toDeezerError(error, 'playlist lookup', { playlistName: name });
+      }
+    },
+
+    async getPlaylistTrackUris(playlistId, accessToken) {
+      try {
+        const tracks = await listAll<{ id: number }>(`/playlist/${playlistId}/tracks`, accessToken);
+        return tracks.map((track) => `deezer:track:${track.id}`);
+      } catch (error) {
+        throw toDeezerError(error, 'playlist lookup', { playlistId });
+      }
+    },
+
+    async addTracks(playlistId, trackUris, accessToken) {
+      try {
+        await request(
+          'post',
+          `/playlist/${playlistId}/tracks`,
+          accessToken,
+          { songs: trackUris.map(trackIdOf).join(',') },
+          TRACK_WRITE_RETRY
+        );
+      } catch (error) {
+        throw toDeezerError(error, 'track add', { playlistId, trackCount: trackUris.length });
+      }
+    },
+
+    // Deezer cannot replace a playlist's items in one go, so they are removed first
+    async replaceTracks(playlistId, trackUris, accessToken) {
+      try {
+        const current = await listAll<{ id: number }>(`/playlist/${playlistId}/tracks`, accessToken);
+        for (let start = 0; start < current.length; start += MAX_TRACKS_PER_REQUEST) {
+          await request(
+            'delete',
+            `/playlist/${playlistId}/tracks`,
+            accessToken,
+            {
+              songs: current
+                .slice(start, start + MAX_TRACKS_PER_REQUEST)
+                .map((track) => track.id)
+                .join(','),
+            },
+            TRACK_WRITE_RETRY
+          );
+        }
+        if (trackUris.length > 0) {
+          await request(
+            'post',
+            `/playlist/${playlistId}/tracks`,
+            accessToken,
+            { songs: trackUris.map(trackIdOf).join(',') },
+            TRACK_WRITE_RETRY
+          );
+        }
+      } catch (error) {
+        throw toDeezerError(error, 'track replace', { playlistId, trackCount: trackUris.length });
+      }
+    },
+  };
+}
@@ -8,6 +8,8 @@ export interface EnvironmentConfig {
   SPOTIFY_CLIENT_SECRET: string;
   SPOTIFY_REDIRECT_URI: string;
   SETLISTFM_API_KEY: string;
+  /** Encrypts the session cookie; a long random string */
+  SESSION_SECRET: string;
 }
 
 /**
@@ -21,6 +23,7 @@ export function validateEnvironment(): EnvironmentConfig {
     'SPOTIFY_CLIENT_SECRET',
     'SPOTIFY_REDIRECT_URI',
     'SETLISTFM_API_KEY',
+    'SESSION_SECRET',
   ] as const;
 
   const missingVars: string[] = [];
@@ -45,5 +48,6 @@ export function validateEnvironment(): EnvironmentConfig {
     SPOTIFY_CLIENT_SECRET: process.env.SPOTIFY_CLIENT_SECRET!,
     SPOTIFY_REDIRECT_URI: process.env.SPOTIFY_REDIRECT_URI!,
     SETLISTFM_API_KEY: process.env.SETLISTFM_API_KEY!,
+    SESSION_SECRET: process.env.SESSION_SECRET!,
   };
 }
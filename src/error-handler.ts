@@ -18,11 +18,30 @@ export interface ErrorContext {
   [key: string]: unknown;
 }
 
+/**
+ * Reasons a login can fail, reported as the error code instead of AUTHENTICATION
+ * - OAUTH_STATE_MISSING: the callback has no state, or the browser no state cookie
+ * - OAUTH_STATE_INVALID: the state cookie's signature does not verify
+ * - OAUTH_STATE_EXPIRED: the login took longer than the state cookie lives
+ * - OAUTH_STATE_MISMATCH: the callback's state is not the one issued to this browser
+ * - CROSS_SITE_REQUEST: another site made the browser send a request that changes data
+ */
+export type AuthenticationErrorCode =
+  | 'OAUTH_STATE_MISSING'
+  | 'OAUTH_STATE_INVALID'
+  | 'OAUTH_STATE_EXPIRED'
+  | 'OAUTH_STATE_MISMATCH'
+  | 'CROSS_SITE_REQUEST';
+
 /**
  * Custom error classes for different error categories
  */
 export class AuthenticationError extends Error {
-  constructor(message: string, public details?: Record<string, unknown>) {
+  constructor(
+    message: string,
+    public details?: Record<string, unknown>,
+    public code?: AuthenticationErrorCode
+  ) {
     super(message);
     this.name = 'AuthenticationError';
   }
@@ -83,7 +102,10 @@ export function formatErrorResponse(error: Error): ErrorResponse {
   const response: ErrorResponse = {
     error: {
       message: error.message,
-      code: error.name.replace(/Error$/, '').toUpperCase(),
+      code:
+        error instanceof AuthenticationError && error.code
+          ? error.code
+          : error.name.replace(/Error$/, '').toUpperCase(),
     },
   };
 
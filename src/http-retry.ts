@@ -0,0 +1,130 @@
+/**
+ * Retry helper for rate-limited and transiently failing HTTP APIs
+ */
+
+import axios from 'axios';
+
+export interface RetryOptions {
+  /** Total number of attempts, including the first (defaults to 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry of a 5xx error; doubles on each retry (defaults to 500ms) */
+  baseDelayMs?: number;
+  /** Longest Retry-After that is waited out; longer waits fail immediately (defaults to 10s) */
+  maxRetryAfterMs?: number;
+  /**
+   * Whether 5xx responses are retried (defaults to true). Turn off for writes
+   * that are not idempotent: the server may have applied them before failing.
+   */
+  retryServerErrors?: boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+/** Serverless functions time out after about 10 seconds, so longer waits are pointless */
+const DEFAULT_MAX_RETRY_AFTER_MS = 10_000;
+/** Used when a 429 response carries no usable Retry-After header */
+const DEFAULT_RETRY_AFTER_MS = 1_000;
+
+/**
+ * Waits for the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Reads the Retry-After header of a 429 response
+ * @param header - Raw header value, in seconds or as an HTTP date
+ * @returns Delay in milliseconds
+ */
+export function parseRetryAfter(header: unknown): number {
+  if (typeof header !== 'string' && typeof header !== 'number') {
+    return DEFAULT_RETRY_AFTER_MS;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(String(header));
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return DEFAULT_RETRY_AFTER_MS;
+}
+
+/**
+ * Runs an HTTP request, retrying rate limits and transient server errors
+ *
+ * 429 responses are retried after the delay given by their Retry-After
+ * header; 5xx responses are retried with exponential backoff unless
+ * retryServerErrors is off. Any other
+ * error, or the last failed attempt, is rethrown unchanged so callers keep
+ * their own error handling.
+ *
+ * @param request - Function performing the request
+ * @param options - Attempt limit and delays
+ * @returns The request's result
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const {
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxRetryAfterMs = DEFAULT_MAX_RETRY_AFTER_MS,
+    retryServerErrors = true,
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= maxAttempts || !axios.isAxiosError(error)) {
+        throw error;
+      }
+
+      const status = error.response?.status ?? 0;
+      let delay: number;
+      if (status === 429) {
+        delay = parseRetryAfter(error.response?.headers?.['retry-after']);
+        if (delay > maxRetryAfterMs) {
+          throw error;
+        }
+      } else if (status >= 500 && retryServerErrors) {
+        delay = baseDelayMs * 2 ** (attempt - 1);
+      } else {
+        throw error;
+      }
+
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Maps items through an async function with at most `concurrency` calls in flight
+ * @param items - Items to process
+ * @param concurrency - Maximum number of concurrent calls
+ * @param fn - Async function applied to each item
+ * @returns Results in the same order as the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
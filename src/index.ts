@@ -2,85 +2,1572 @@
  * Main orchestrator for the setlist-to-spotify-playlist application
  */
 
-import { getAverageSetlist, AverageSetlistParams } from './setlist-fetcher.js';
-import { matchAllTracks } from './track-matcher.js';
-import { createPlaylist, PlaylistCreationResult } from './playlist-creator.js';
-import { ValidationError } from './error-handler.js';
+import {
+  getAverageSetlist,
+  getSetlist,
+  parseSetlistId,
+  AverageSetlistParams,
+  AverageSetlistResult,
+  SetlistSong,
+  YearPolicy,
+  yearsForDateRange,
+  DEFAULT_MAX_PAGES,
+} from './setlist-fetcher.js';
+import {
+  matchAllTracks,
+  MatchedTrack,
+  MatchStatus,
+  TrackMatchOptions,
+  TrackSearchResult,
+  VersionPreference,
+} from './track-matcher.js';
+import {
+  createPlaylist,
+  NAME_TEMPLATE_PLACEHOLDERS,
+  PLAYLIST_VISIBILITIES,
+  PlaylistCreationResult,
+  PlaylistSource,
+  PlaylistSyncOptions,
+  PlaylistVisibility,
+} from './playlist-creator.js';
+import { DataNotFoundError, ValidationError } from './error-handler.js';
+import { getArtist } from './artist-search.js';
+import { getProviderArtist, resolveProviderArtist } from './provider-artist.js';
+import {
+  getMusicProvider,
+  MusicProvider,
+  MusicProviderName,
+  ProviderArtist,
+} from './music-provider.js';
+import { DEFAULT_MIN_CONFIDENCE } from './track-scorer.js';
+import { mapWithConcurrency } from './http-retry.js';
+import { getCacheStore } from './cache-store.js';
+import { MATCH_CACHE_NAME } from './match-cache.js';
+import { SongCleaningOptions } from './song-cleaner.js';
+import { isIsoDate, SetlistFilters, ShowDetails } from './setlist-filter.js';
+import { ExportSong, SetlistExport } from './setlist-export.js';
 
-export interface CreatePlaylistRequest {
+/**
+ * Where the playlist is created and how it is named, shared and kept up to date
+ */
+export interface PlaylistOptions {
+  /** Music service to match tracks on and create the playlist in (defaults to spotify) */
+  provider?: MusicProviderName;
+  /** Update the playlist created by an earlier run instead of creating a duplicate */
+  sync?: PlaylistSyncOptions;
+  /** Playlist name with {artist}, {year}, {tour}, {venue} and {shows} placeholders */
+  nameTemplate?: string;
+  /** Defaults to private */
+  visibility?: PlaylistVisibility;
+}
+
+export interface CreatePlaylistRequest extends PlaylistOptions {
+  /** setlist.fm artist MBID; the artist name is looked up from it */
   artistId: string;
+  year?: number;
+  /** Result pages fetched per year, at most DEFAULT_MAX_PAGES (the default) */
+  maxPages?: number;
+  /** Note in the playlist description where the encore starts (defaults to true) */
+  markEncore?: boolean;
+  cleaning?: SongCleaningOptions;
+  filters?: SetlistFilters;
+  /** Walk back through earlier years, or merge a span of years (defaults to one year back) */
+  yearPolicy?: YearPolicy;
+  matching?: TrackMatchOptions;
+  /** Studio originals, live or acoustic recordings, or follow the setlist notes */
+  versionPreference?: VersionPreference;
+  /** Provider artist ID to match against; resolved from the artist name when omitted */
+  providerArtistId?: string;
+  /** Keep only this many of the most played songs, in setlist order */
+  maxSongs?: number;
+  accessToken: string;
+}
+
+export interface CreateSetlistPlaylistRequest extends PlaylistOptions {
+  /** setlist.fm setlist ID or setlist URL of one specific concert */
+  setlist: string;
+  /** Note in the playlist description where the encore starts (defaults to true) */
+  markEncore?: boolean;
+  cleaning?: SongCleaningOptions;
+  matching?: TrackMatchOptions;
+  /** Studio originals, live or acoustic recordings, or follow the setlist notes */
+  versionPreference?: VersionPreference;
+  /** Provider artist ID to match against; resolved from the artist name when omitted */
+  providerArtistId?: string;
+  accessToken: string;
+}
+
+export interface CreatePlaylistResponse extends PlaylistCreationResult {
+  artistName: string;
+  showsSampled: number;
+  totalShows: number;
+  /** Years the setlist data actually came from */
+  yearsUsed: number[];
+  /** Date and venue of the concert when the playlist is built from a single setlist */
+  show?: ShowDetails;
+  /** Artist the tracks were matched against on the music provider */
+  providerArtist: Pick<ProviderArtist, 'id' | 'name'>;
+  /** Every setlist song with its play count and match, in playlist order */
+  songs: PreviewSong[];
+  /** Songs that were left out, with the reason, so they can be added by hand */
+  unmatched: PreviewSong[];
+  summary: MatchSummary;
+}
+
+/**
+ * A setlist song with the provider track it was matched to, if any
+ */
+export interface PreviewSong {
+  name: string;
+  /** 1-based position of the song in the setlist */
+  position: number;
+  /** Name of the set as given on setlist.fm, if any */
+  setName?: string;
+  /** Number of shows the song was played at */
+  playCount: number;
+  /** 0 for the main set, 1 for the first encore, and so on */
+  encore: number;
+  status: MatchStatus;
+  trackUri: string | null;
+  confidence?: number;
+  matchedVia?: 'performer' | 'original-artist';
+  track?: MatchedTrack;
+  /** Why the search failed, when status is "failed" */
+  error?: string;
+  /** Why no track was added, for songs that were not matched */
+  reason?: string;
+}
+
+export interface MatchSummary {
+  showsSampled: number;
+  totalShows: number;
+  songCount: number;
+  matchedCount: number;
+  /** Songs without a convincing match on the music provider */
+  unmatchedCount: number;
+  /** Songs whose search failed, which may match if tried again */
+  failedCount: number;
+  /** Share of songs matched, from 0 to 1 */
+  matchRate: number;
+}
+
+export interface PlaylistPreview {
+  /** Music service the songs were matched on */
+  provider: MusicProviderName;
+  artistName: string;
+  providerArtist: Pick<ProviderArtist, 'id' | 'name'>;
+  year: number;
+  yearsUsed: number[];
+  showsSampled: number;
+  totalShows: number;
+  show?: ShowDetails;
+  /** Every setlist song in playlist order */
+  songs: PreviewSong[];
+  /** Songs without a matched track */
+  unmatched: PreviewSong[];
+  /** URIs of the matched tracks in order, as they would be added to the playlist */
+  trackUris: string[];
+  /** 1-based track number where the encore begins */
+  encoreStartsAt?: number;
+  /** Date range, tour and venue of the shows sampled */
+  source: PlaylistSource;
+  summary: MatchSummary;
+}
+
+/**
+ * Playlist to create after reviewing a preview. The naming fields are echoed
+ * back from the preview; the track list may have been reordered or edited.
+ */
+export interface CommitPlaylistRequest extends PlaylistOptions {
   artistName: string;
+  year: number;
+  yearsUsed?: number[];
+  show?: ShowDetails;
+  /** Shows the setlist was built from, for the description */
+  source?: PlaylistSource;
+  trackUris: string[];
+  encoreStartsAt?: number;
+  accessToken: string;
+}
+
+/**
+ * How a festival playlist orders the artists' tracks
+ * - running-order: each artist's set in turn, in the order the artists are listed
+ * - interleaved: one track of each artist in turn
+ */
+export type FestivalOrder = 'running-order' | 'interleaved';
+
+/**
+ * One artist of a festival lineup
+ */
+export interface FestivalArtist {
+  /** setlist.fm artist MBID */
+  artistId: string;
+  /** Year to average; defaults to the current year with the usual fallback */
   year?: number;
+  /** Narrow the shows, e.g. to a date range */
+  filters?: SetlistFilters;
+  /** Provider artist ID, to settle artists that share a name */
+  providerArtistId?: string;
+}
+
+export interface CreateFestivalPlaylistRequest extends PlaylistOptions {
+  /** Festival name, used to name the playlist */
+  festivalName?: string;
+  /** Artists in running order */
+  artists: FestivalArtist[];
+  /** Most played songs kept per artist (defaults to 10) */
+  songsPerArtist?: number;
+  /** Defaults to running-order */
+  order?: FestivalOrder;
+  maxPages?: number;
+  cleaning?: SongCleaningOptions;
+  matching?: TrackMatchOptions;
+  versionPreference?: VersionPreference;
   accessToken: string;
 }
 
 /**
- * Main workflow function that orchestrates the entire playlist creation process
- * @param request - Request parameters including artist info, optional year, and access token
- * @returns Playlist creation result with ID, track count, and year
+ * What one artist contributed to a festival playlist
+ */
+export interface FestivalArtistBreakdown {
+  artistId: string;
+  status: 'included';
+  artistName: string;
+  providerArtist: Pick<ProviderArtist, 'id' | 'name'>;
+  year: number;
+  yearsUsed: number[];
+  /** Songs considered for the artist, in setlist order */
+  songs: PreviewSong[];
+  unmatched: PreviewSong[];
+  /** Number of the artist's tracks in the playlist */
+  tracksIncluded: number;
+  summary: MatchSummary;
+}
+
+/**
+ * An artist left out of a festival playlist, e.g. for lack of setlist.fm data
+ */
+export interface SkippedFestivalArtist {
+  artistId: string;
+  status: 'skipped';
+  /** Why the artist was left out */
+  reason: string;
+}
+
+export interface FestivalPlaylistResponse extends PlaylistCreationResult {
+  festivalName: string;
+  order: FestivalOrder;
+  /** Per-artist breakdown, in running order */
+  artists: Array<FestivalArtistBreakdown | SkippedFestivalArtist>;
+  /** Totals across the lineup */
+  summary: MatchSummary;
+}
+
+const FESTIVAL_ORDERS: FestivalOrder[] = ['running-order', 'interleaved'];
+
+/**
+ * Each artist costs a round of setlist.fm and provider requests, and the
+ * whole lineup has to fit in one function run
+ */
+const MAX_FESTIVAL_ARTISTS = 10;
+
+/** Artists whose setlists are built and matched at the same time */
+const FESTIVAL_CONCURRENCY = 3;
+
+const DEFAULT_SONGS_PER_ARTIST = 10;
+
+const MAX_SONGS_PER_ARTIST = 50;
+
+const VERSION_PREFERENCES: VersionPreference[] = ['studio', 'live', 'acoustic', 'as-played'];
+
+/** Largest span of years that can be walked back through or merged */
+const MAX_YEAR_SPAN = 10;
+
+/** More parallel searches than this mostly earns 429 responses from Spotify */
+const MAX_MATCH_CONCURRENCY = 10;
+
+/** Searches per festival artist, so the artists matched at once stay within MAX_MATCH_CONCURRENCY */
+const FESTIVAL_MATCH_CONCURRENCY = Math.floor(MAX_MATCH_CONCURRENCY / FESTIVAL_CONCURRENCY);
+
+/** Leaves room for long artist and tour names within Spotify's 100 character names */
+const MAX_NAME_TEMPLATE_LENGTH = 100;
+
+interface MatchedTracks {
+  trackUris: string[];
+  encoreStartsAt?: number;
+}
+
+/**
+ * Reads the setlist.fm API key from the environment
+ * @returns The API key
+ * @throws ValidationError if the API key is not configured
+ */
+function getSetlistFmApiKey(): string {
+  const apiKey = process.env.SETLISTFM_API_KEY;
+  if (!apiKey) {
+    throw new ValidationError('setlist.fm API key is not configured', {
+      field: 'SETLISTFM_API_KEY',
+    });
+  }
+  return apiKey;
+}
+
+/**
+ * Validates the year policy of a request
+ * @param yearPolicy - Year policy to validate
+ * @throws ValidationError if the policy is out of range
+ */
+function validateYearPolicy(yearPolicy: YearPolicy): void {
+  if (yearPolicy.mode === 'fallback') {
+    const { maxYearsBack } = yearPolicy;
+    if (!Number.isInteger(maxYearsBack) || maxYearsBack < 0 || maxYearsBack > MAX_YEAR_SPAN) {
+      throw new ValidationError(`maxYearsBack must be an integer from 0 to ${MAX_YEAR_SPAN}`, {
+        field: 'maxYearsBack',
+        value: maxYearsBack,
+      });
+    }
+    return;
+  }
+
+  const { fromYear, toYear, yearWeights = {} } = yearPolicy;
+  if (!Number.isInteger(fromYear) || !Number.isInteger(toYear) || fromYear > toYear) {
+    throw new ValidationError('fromYear and toYear must be years with fromYear <= toYear', {
+      field: 'fromYear',
+      fromYear,
+      toYear,
+    });
+  }
+  if (toYear - fromYear > MAX_YEAR_SPAN) {
+    throw new ValidationError(`Cannot merge more than ${MAX_YEAR_SPAN + 1} years`, {
+      field: 'toYear',
+      fromYear,
+      toYear,
+    });
+  }
+  for (const [weightYear, weight] of Object.entries(yearWeights)) {
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new ValidationError('Year weights must be non-negative numbers', {
+        field: 'yearWeights',
+        year: weightYear,
+        value: weight,
+      });
+    }
+  }
+}
+
+/**
+ * Validates the setlist.fm parameters of an average setlist request
+ * @param request - Artist, paging, song count, date filters and year policy
+ * @throws ValidationError if a parameter is missing or invalid
+ */
+function validateSetlistRequest(
+  request: Pick<
+    CreatePlaylistRequest,
+    'artistId' | 'year' | 'maxPages' | 'maxSongs' | 'filters' | 'yearPolicy'
+  >
+): void {
+  const { artistId, year, maxPages, maxSongs, filters, yearPolicy } = request;
+
+  if (!artistId || artistId.trim() === '') {
+    throw new ValidationError('Artist ID is required', { field: 'artistId' });
+  }
+
+  // Every page is a setlist.fm request, counted against the API key's daily quota
+  if (
+    maxPages !== undefined &&
+    !(Number.isInteger(maxPages) && maxPages >= 1 && maxPages <= DEFAULT_MAX_PAGES)
+  ) {
+    throw new ValidationError(`maxPages must be an integer from 1 to ${DEFAULT_MAX_PAGES}`, {
+      field: 'maxPages',
+      value: maxPages,
+    });
+  }
+
+  if (maxSongs !== undefined && (!Number.isInteger(maxSongs) || maxSongs < 1)) {
+    throw new ValidationError('maxSongs must be a positive integer', {
+      field: 'maxSongs',
+      value: maxSongs,
+    });
+  }
+
+  for (const field of ['dateFrom', 'dateTo'] as const) {
+    const value = filters?.[field];
+    if (value !== undefined && !isIsoDate(value)) {
+      throw new ValidationError(`${field} must be a date in YYYY-MM-DD format`, {
+        field,
+        value,
+      });
+    }
+  }
+
+  if (filters?.dateFrom && filters.dateTo && filters.dateFrom > filters.dateTo) {
+    throw new ValidationError('dateFrom must not be after dateTo', {
+      field: 'dateFrom',
+      dateFrom: filters.dateFrom,
+      dateTo: filters.dateTo,
+    });
+  }
+
+  const countryCode = filters?.countryCode;
+  if (countryCode !== undefined && !/^[A-Za-z]{2}$/.test(countryCode)) {
+    throw new ValidationError('countryCode must be a two-letter country code', {
+      field: 'countryCode',
+      value: countryCode,
+    });
+  }
+
+  if (yearPolicy) {
+    validateYearPolicy(yearPolicy);
+  } else if (year === undefined) {
+    // The date range decides the years fetched, so it must not span too many
+    const derived = yearsForDateRange(filters).yearPolicy;
+    if (derived?.mode === 'merge' && derived.toYear - derived.fromYear > MAX_YEAR_SPAN) {
+      throw new ValidationError(
+        `A date range without a year can span at most ${MAX_YEAR_SPAN + 1} years`,
+        { field: 'dateFrom', dateFrom: filters?.dateFrom, dateTo: filters?.dateTo }
+      );
+    }
+  }
+}
+
+/**
+ * Validates the track matching options of a request
+ * @param matching - Matching options to validate
+ * @param versionPreference - Preferred kind of recording
+ * @throws ValidationError if the minimum confidence or concurrency is out of range, or the
+ *   market or preference is unknown
+ */
+function validateMatchOptions(
+  matching: TrackMatchOptions | undefined,
+  versionPreference: VersionPreference | undefined
+): void {
+  const minConfidence = matching?.minConfidence;
+  if (minConfidence !== undefined && !(minConfidence >= 0 && minConfidence <= 1)) {
+    throw new ValidationError('minConfidence must be a number from 0 to 1', {
+      field: 'minConfidence',
+      value: minConfidence,
+    });
+  }
+
+  const market = matching?.market;
+  if (market !== undefined && !/^[A-Za-z]{2}$/.test(market)) {
+    throw new ValidationError('market must be a two-letter country code', {
+      field: 'market',
+      value: market,
+    });
+  }
+
+  const concurrency = matching?.concurrency;
+  if (
+    concurrency !== undefined &&
+    !(Number.isInteger(concurrency) && concurrency >= 1 && concurrency <= MAX_MATCH_CONCURRENCY)
+  ) {
+    throw new ValidationError(
+      `concurrency must be an integer from 1 to ${MAX_MATCH_CONCURRENCY}`,
+      { field: 'concurrency', value: concurrency }
+    );
+  }
+
+  if (versionPreference !== undefined && !VERSION_PREFERENCES.includes(versionPreference)) {
+    throw new ValidationError(
+      `versionPreference must be one of ${VERSION_PREFERENCES.join(', ')}`,
+      { field: 'versionPreference', value: versionPreference }
+    );
+  }
+}
+
+/**
+ * Validates how the playlist is to be named, shared and kept up to date
+ * @param options - Playlist options to validate
+ * @throws ValidationError if the name template uses an unknown placeholder or would give an
+ *   empty name, the visibility is unknown, or the sync options are malformed
+ */
+function validatePlaylistOptions(options: PlaylistOptions): void {
+  const { nameTemplate, visibility, sync } = options;
+
+  if (nameTemplate !== undefined) {
+    if (typeof nameTemplate !== 'string' || nameTemplate.trim() === '') {
+      throw new ValidationError('nameTemplate must not be empty', {
+        field: 'nameTemplate',
+        value: nameTemplate,
+      });
+    }
+    if (nameTemplate.length > MAX_NAME_TEMPLATE_LENGTH) {
+      throw new ValidationError(
+        `nameTemplate must be at most ${MAX_NAME_TEMPLATE_LENGTH} characters`,
+        { field: 'nameTemplate', value: nameTemplate }
+      );
+    }
+    const unknown = [...nameTemplate.matchAll(/\{(\w*)\}/g)]
+      .map((match) => match[1])
+      .find((placeholder) => !NAME_TEMPLATE_PLACEHOLDERS.includes(placeholder));
+    if (unknown !== undefined) {
+      throw new ValidationError(
+        `nameTemplate may only use the placeholders ${NAME_TEMPLATE_PLACEHOLDERS.map((name) => `{${name}}`).join(', ')}`,
+        { field: 'nameTemplate', value: nameTemplate, placeholder: unknown }
+      );
+    }
+  }
+
+  if (visibility !== undefined && !PLAYLIST_VISIBILITIES.includes(visibility)) {
+    throw new ValidationError(
+      `visibility must be one of ${PLAYLIST_VISIBILITIES.join(', ')}`,
+      { field: 'visibility', value: visibility }
+    );
+  }
+
+  if (
+    sync !== undefined &&
+    (typeof sync !== 'object' || sync === null ||
+      (sync.playlistId !== undefined && typeof sync.playlistId !== 'string'))
+  ) {
+    throw new ValidationError('sync must be an object with an optional playlistId', {
+      field: 'sync',
+      value: sync,
+    });
+  }
+}
+
+/**
+ * Pins the artist that tracks are matched against on the music provider
+ *
+ * A given artist ID is verified; otherwise the setlist.fm artist name is
+ * resolved on the provider. When several artists share the name, the request
+ * fails with the candidates so the caller can retry with one of their IDs.
+ *
+ * @param artistName - Artist name from setlist.fm
+ * @param providerArtistId - Provider artist ID chosen by the caller, if any
+ * @param accessToken - Provider access token
+ * @param provider - Service the tracks are matched on
+ * @returns The provider's artist
+ * @throws ValidationError if the ID is unknown or the name is ambiguous
+ * @throws DataNotFoundError if no artist on the provider has the name
+ */
+async function pinProviderArtist(
+  artistName: string,
+  providerArtistId: string | undefined,
+  accessToken: string,
+  provider: MusicProvider
+): Promise<ProviderArtist> {
+  if (providerArtistId !== undefined) {
+    const artist = await getProviderArtist(providerArtistId, accessToken, provider);
+    if (!artist) {
+      throw new ValidationError(`providerArtistId is not a known ${provider.label} artist`, {
+        field: 'providerArtistId',
+        value: providerArtistId,
+      });
+    }
+    return artist;
+  }
+
+  const resolution = await resolveProviderArtist(artistName, accessToken, provider);
+  if (resolution.status === 'ambiguous') {
+    throw new ValidationError(
+      `Several ${provider.label} artists are named ${artistName}; choose one with providerArtistId`,
+      { field: 'providerArtistId', artistName, candidates: resolution.candidates }
+    );
+  }
+  if (resolution.status === 'not-found') {
+    throw new DataNotFoundError(`No ${provider.label} artist found for ${artistName}`, {
+      artistName,
+    });
+  }
+  return resolution.artist;
+}
+
+/**
+ * Collects the URIs of matched tracks in setlist order
+ * @param songs - Songs from the setlist
+ * @param trackResults - Match results, in the same order as the songs
+ * @param markEncore - Whether to report where the encore starts
+ * @returns Track URIs and the 1-based track number where the encore begins
+ */
+function collectTrackUris(
+  songs: SetlistSong[],
+  trackResults: TrackSearchResult[],
+  markEncore: boolean
+): MatchedTracks {
+  // Filter out tracks that weren't found and collect URIs, keeping setlist order
+  const matchedSongs = trackResults
+    .map((result, index) => ({ result, song: songs[index] }))
+    .filter(({ result }) => result.found && result.trackUri !== null);
+  const trackUris = matchedSongs.map(({ result }) => result.trackUri as string);
+
+  // Find where the encore begins among the matched tracks
+  const encoreIndex = matchedSongs.findIndex(({ song }) => song.encore > 0);
+  const encoreStartsAt = markEncore && encoreIndex >= 0 ? encoreIndex + 1 : undefined;
+
+  return { trackUris, encoreStartsAt };
+}
+
+/**
+ * Explains why a song was not matched
+ * @param result - Match result of the song
+ * @param minConfidence - Confidence a match needed to reach
+ * @param providerLabel - Name of the music service searched
+ * @returns Reason for the report, or undefined for matched songs
+ */
+function unmatchedReason(
+  result: TrackSearchResult,
+  minConfidence: number,
+  providerLabel: string
+): string | undefined {
+  if (result.status === 'matched') {
+    return undefined;
+  }
+  if (result.status === 'failed') {
+    return `${providerLabel} search failed; try again later`;
+  }
+  if (result.confidence !== undefined) {
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+    return `Closest track only matched ${percent(result.confidence)}, below the ${percent(minConfidence)} threshold`;
+  }
+  return `No tracks found on ${providerLabel}`;
+}
+
+/**
+ * Keeps the most played songs of a setlist
+ * @param songs - Songs in setlist order
+ * @param maxSongs - Number of songs to keep
+ * @returns The most played songs, earlier songs winning ties, still in setlist order
+ */
+function mostPlayedSongs(songs: SetlistSong[], maxSongs: number): SetlistSong[] {
+  const kept = new Set(
+    [...songs]
+      .sort((a, b) => b.playCount - a.playCount || a.position - b.position)
+      .slice(0, maxSongs)
+  );
+  return songs.filter((song) => kept.has(song));
+}
+
+/**
+ * Builds the preview of a playlist from setlist songs and their matches
+ * @param songs - Songs from the setlist, in playlist order
+ * @param trackResults - Match results, in the same order as the songs
+ * @param markEncore - Whether to report where the encore starts
+ * @param minConfidence - Confidence a match needed to reach, quoted in unmatched reasons
+ * @param providerLabel - Name of the music service searched, quoted in unmatched reasons
+ * @returns Songs with their matches, the unmatched songs and the URIs to add
+ */
+function describeMatches(
+  songs: SetlistSong[],
+  trackResults: TrackSearchResult[],
+  markEncore: boolean,
+  minConfidence: number,
+  providerLabel: string
+): Pick<PlaylistPreview, 'songs' | 'unmatched' | 'trackUris' | 'encoreStartsAt'> {
+  const previewSongs: PreviewSong[] = songs.map((song, index) => {
+    const result = trackResults[index];
+    const reason = unmatchedReason(result, minConfidence, providerLabel);
+    return {
+      name: song.name,
+      position: song.position,
+      ...(song.setName ? { setName: song.setName } : {}),
+      playCount: song.playCount,
+      encore: song.encore,
+      status: result.status,
+      trackUri: result.trackUri,
+      ...(result.confidence !== undefined ? { confidence: result.confidence } : {}),
+      ...(result.matchedVia ? { matchedVia: result.matchedVia } : {}),
+      ...(result.track ? { track: result.track } : {}),
+      ...(result.error ? { error: result.error } : {}),
+      ...(reason ? { reason } : {}),
+    };
+  });
+
+  return {
+    songs: previewSongs,
+    unmatched: previewSongs.filter((song) => song.status !== 'matched'),
+    ...collectTrackUris(songs, trackResults, markEncore),
+  };
+}
+
+/**
+ * Describes the shows an average setlist was built from
+ * @param setlist - Average setlist
+ * @returns Number of shows, date range, and the tour and venue they share
+ */
+function averageSetlistSource(setlist: AverageSetlistResult): PlaylistSource {
+  return {
+    showsSampled: setlist.showsSampled,
+    ...(setlist.dateRange ? { dateRange: setlist.dateRange } : {}),
+    ...(setlist.tourName ? { tourName: setlist.tourName } : {}),
+    ...(setlist.venueName ? { venueName: setlist.venueName } : {}),
+  };
+}
+
+/**
+ * Describes a single concert as the source of a setlist
+ * @param show - Date and venue of the concert
+ * @returns Source of one show on the concert's date
+ */
+function showSource(show: ShowDetails): PlaylistSource {
+  return {
+    showsSampled: 1,
+    dateRange: { from: show.eventDate, to: show.eventDate },
+    ...(show.tourName ? { tourName: show.tourName } : {}),
+    ...(show.venueName ? { venueName: show.venueName } : {}),
+  };
+}
+
+/**
+ * Summarizes how many songs were matched
+ * @param songs - Songs with their matches
+ * @param showsSampled - Number of shows the setlist was built from
+ * @param totalShows - Number of shows setlist.fm reports
+ * @returns Counts and match rate
+ */
+function summarizeMatches(
+  songs: PreviewSong[],
+  showsSampled: number,
+  totalShows: number
+): MatchSummary {
+  const matchedCount = songs.filter((song) => song.status === 'matched').length;
+  const failedCount = songs.filter((song) => song.status === 'failed').length;
+
+  return {
+    showsSampled,
+    totalShows,
+    songCount: songs.length,
+    matchedCount,
+    unmatchedCount: songs.length - matchedCount - failedCount,
+    failedCount,
+    matchRate: songs.length > 0 ? matchedCount / songs.length : 0,
+  };
+}
+
+/**
+ * Creates the playlist for a preview on its music provider, adding every matched track
+ * @param preview - Preview of the playlist
+ * @param accessToken - Provider access token
+ * @param options - Name template, visibility and sync options
+ * @returns Playlist creation result with the preview's artist and setlist details
+ */
+async function createPlaylistFromPreview(
+  preview: PlaylistPreview,
+  accessToken: string,
+  options: PlaylistOptions
+): Promise<CreatePlaylistResponse> {
+  const { sync, nameTemplate, visibility } = options;
+  const playlistResult = await createPlaylist({
+    artistName: preview.artistName,
+    year: preview.year,
+    trackUris: preview.trackUris,
+    accessToken,
+    encoreStartsAt: preview.encoreStartsAt,
+    yearsUsed: preview.yearsUsed,
+    source: preview.source,
+    ...(preview.show ? { show: preview.show } : {}),
+    ...(sync ? { sync } : {}),
+    ...(nameTemplate ? { nameTemplate } : {}),
+    ...(visibility ? { visibility } : {}),
+    provider: getMusicProvider(preview.provider),
+  });
+
+  return {
+    ...playlistResult,
+    artistName: preview.artistName,
+    showsSampled: preview.showsSampled,
+    totalShows: preview.totalShows,
+    yearsUsed: preview.yearsUsed,
+    ...(preview.show ? { show: preview.show } : {}),
+    providerArtist: preview.providerArtist,
+    songs: preview.songs,
+    unmatched: preview.unmatched,
+    summary: preview.summary,
+  };
+}
+
+/**
+ * Builds an artist's average setlist and matches it to the music provider's tracks,
+ * without creating a playlist, so the matches can be reviewed first
+ * @param request - Request parameters including artist ID, optional year, and access token
+ * @returns Songs in playlist order with their play counts and matches
  * @throws ValidationError if required parameters are missing
  * @throws AuthenticationError if access token is invalid
  * @throws ExternalAPIError if external APIs are unavailable
  * @throws DataNotFoundError if no setlist data is found
  */
-export async function handleCreatePlaylist(
+export async function previewPlaylist(
   request: CreatePlaylistRequest
-): Promise<PlaylistCreationResult> {
-  const { artistId, artistName, year, accessToken } = request;
+): Promise<PlaylistPreview> {
+  const {
+    artistId,
+    year,
+    maxPages,
+    markEncore = true,
+    cleaning,
+    filters,
+    yearPolicy,
+    matching,
+    versionPreference,
+    providerArtistId,
+    maxSongs,
+    accessToken,
+  } = request;
 
   // Validate access token is present (Requirement 1.1)
   if (!accessToken || accessToken.trim() === '') {
     throw new ValidationError('Access token is required', { field: 'accessToken' });
   }
 
-  // Validate required parameters
-  if (!artistId || artistId.trim() === '') {
-    throw new ValidationError('Artist ID is required', { field: 'artistId' });
+  validateSetlistRequest(request);
+
+  validateMatchOptions(matching, versionPreference);
+  const provider = getMusicProvider(request.provider);
+
+  // Step 1: Fetch average setlist from setlist.fm (Requirement 2.1)
+  const setlistParams: AverageSetlistParams = {
+    artistId,
+    year,
+    maxPages,
+    cleaning,
+    filters,
+    yearPolicy,
+  };
+
+  const apiKey = getSetlistFmApiKey();
+
+  // Derive the artist name from the MBID so the two can never disagree
+  const { name: artistName } = await getArtist(artistId, apiKey);
+
+  // Pin the provider's artist before fetching setlists, so ambiguity fails fast
+  const providerArtist = await pinProviderArtist(
+    artistName,
+    providerArtistId,
+    accessToken,
+    provider
+  );
+
+  const setlist = await getAverageSetlist(setlistParams, apiKey);
+  const songs = maxSongs !== undefined ? mostPlayedSongs(setlist.songs, maxSongs) : setlist.songs;
+
+  // Step 2: Match songs to the provider's tracks (Requirement 3.1)
+  const trackResults = await matchAllTracks(
+    songs,
+    providerArtist.name,
+    accessToken,
+    {
+      cache: getCacheStore(MATCH_CACHE_NAME),
+      ...matching,
+      ...(versionPreference ? { versionPreference } : {}),
+      providerArtistId: providerArtist.id,
+      provider,
+    }
+  );
+
+  const matches = describeMatches(
+    songs,
+    trackResults,
+    markEncore,
+    matching?.minConfidence ?? DEFAULT_MIN_CONFIDENCE,
+    provider.label
+  );
+
+  // Use the year the setlist actually came from, which may be the fallback year
+  return {
+    provider: provider.name,
+    artistName,
+    providerArtist: { id: providerArtist.id, name: providerArtist.name },
+    year: setlist.year,
+    yearsUsed: setlist.yearsUsed,
+    showsSampled: setlist.showsSampled,
+    totalShows: setlist.totalShows,
+    source: averageSetlistSource(setlist),
+    ...matches,
+    summary: summarizeMatches(matches.songs, setlist.showsSampled, setlist.totalShows),
+  };
+}
+
+/**
+ * Fetches one concert's setlist and matches it to the music provider's tracks, without
+ * creating a playlist, so the matches can be reviewed first
+ * @param request - Request parameters including setlist ID or URL and access token
+ * @returns Songs in the order they were played, with their matches
+ * @throws ValidationError if required parameters are missing or the setlist ID is invalid
+ * @throws AuthenticationError if access token is invalid
+ * @throws ExternalAPIError if external APIs are unavailable
+ * @throws DataNotFoundError if the setlist does not exist or has no songs
+ */
+export async function previewSetlistPlaylist(
+  request: CreateSetlistPlaylistRequest
+): Promise<PlaylistPreview> {
+  const {
+    setlist: setlistIdOrUrl,
+    markEncore = true,
+    cleaning,
+    matching,
+    versionPreference,
+    providerArtistId,
+    accessToken,
+  } = request;
+
+  if (!accessToken || accessToken.trim() === '') {
+    throw new ValidationError('Access token is required', { field: 'accessToken' });
+  }
+
+  const setlistId = setlistIdOrUrl ? parseSetlistId(setlistIdOrUrl) : null;
+  if (!setlistId) {
+    throw new ValidationError('setlist must be a setlist.fm setlist ID or URL', {
+      field: 'setlist',
+      value: setlistIdOrUrl,
+    });
+  }
+
+  validateMatchOptions(matching, versionPreference);
+  const provider = getMusicProvider(request.provider);
+
+  const apiKey = getSetlistFmApiKey();
+
+  // Step 1: Fetch the concert's setlist, keeping its exact order
+  const setlist = await getSetlist(setlistId, apiKey, cleaning);
+  const providerArtist = await pinProviderArtist(
+    setlist.artistName,
+    providerArtistId,
+    accessToken,
+    provider
+  );
+
+  // Step 2: Match songs to the provider's tracks
+  const trackResults = await matchAllTracks(
+    setlist.songs,
+    providerArtist.name,
+    accessToken,
+    {
+      cache: getCacheStore(MATCH_CACHE_NAME),
+      ...matching,
+      ...(versionPreference ? { versionPreference } : {}),
+      providerArtistId: providerArtist.id,
+      provider,
+    }
+  );
+
+  const matches = describeMatches(
+    setlist.songs,
+    trackResults,
+    markEncore,
+    matching?.minConfidence ?? DEFAULT_MIN_CONFIDENCE,
+    provider.label
+  );
+
+  const year = parseInt(setlist.show.eventDate.slice(0, 4), 10);
+  return {
+    provider: provider.name,
+    artistName: setlist.artistName,
+    providerArtist: { id: providerArtist.id, name: providerArtist.name },
+    year,
+    yearsUsed: [year],
+    showsSampled: 1,
+    totalShows: 1,
+    show: setlist.show,
+    source: showSource(setlist.show),
+    ...matches,
+    summary: summarizeMatches(matches.songs, 1, 1),
+  };
+}
+
+/**
+ * Lists setlist songs for an export, without track matches
+ * @param songs - Setlist songs in playlist order
+ * @returns Songs with their position, play count, set and encore
+ */
+function exportSongs(songs: SetlistSong[]): ExportSong[] {
+  return songs.map((song) => ({
+    position: song.position,
+    name: song.name,
+    playCount: song.playCount,
+    encore: song.encore,
+    ...(song.setName ? { setName: song.setName } : {}),
+  }));
+}
+
+/**
+ * Lists previewed songs for an export, with their track matches
+ * @param songs - Songs with their matches
+ * @returns Songs with their position, play count, set, encore and matched track
+ */
+function exportMatchedSongs(songs: PreviewSong[]): ExportSong[] {
+  return songs.map((song) => ({
+    position: song.position,
+    name: song.name,
+    playCount: song.playCount,
+    encore: song.encore,
+    ...(song.setName ? { setName: song.setName } : {}),
+    status: song.status,
+    trackUri: song.trackUri,
+    ...(song.track ? { track: song.track } : {}),
+    ...(song.confidence !== undefined ? { confidence: song.confidence } : {}),
+  }));
+}
+
+/**
+ * Builds the export of a preview
+ * @param preview - Preview with the matched songs
+ * @returns Export of the preview's setlist and matches
+ */
+function exportPreview(preview: PlaylistPreview): SetlistExport {
+  return {
+    artistName: preview.artistName,
+    year: preview.year,
+    yearsUsed: preview.yearsUsed,
+    showsSampled: preview.showsSampled,
+    totalShows: preview.totalShows,
+    ...(preview.show ? { show: preview.show } : {}),
+    source: preview.source,
+    matched: true,
+    provider: preview.provider,
+    songs: exportMatchedSongs(preview.songs),
+  };
+}
+
+/**
+ * Builds an artist's average setlist for export
+ *
+ * Without matching, only setlist.fm is queried, so no music provider login is
+ * needed and the access token of the request is ignored.
+ *
+ * @param request - Request parameters including artist ID and optional year
+ * @param match - Whether to match the songs to the music provider's tracks
+ * @returns Songs in playlist order with their play counts, and matches when requested
+ * @throws ValidationError if required parameters are missing
+ * @throws AuthenticationError if matching and the access token is invalid
+ * @throws ExternalAPIError if external APIs are unavailable
+ * @throws DataNotFoundError if no setlist data is found
+ */
+export async function exportAverageSetlist(
+  request: CreatePlaylistRequest,
+  match: boolean
+): Promise<SetlistExport> {
+  if (match) {
+    return exportPreview(await previewPlaylist(request));
+  }
+
+  const { artistId, year, maxPages, cleaning, filters, yearPolicy, maxSongs } = request;
+  validateSetlistRequest(request);
+
+  const apiKey = getSetlistFmApiKey();
+  const { name: artistName } = await getArtist(artistId, apiKey);
+  const setlist = await getAverageSetlist(
+    { artistId, year, maxPages, cleaning, filters, yearPolicy },
+    apiKey
+  );
+  const songs = maxSongs !== undefined ? mostPlayedSongs(setlist.songs, maxSongs) : setlist.songs;
+
+  return {
+    artistName,
+    year: setlist.year,
+    yearsUsed: setlist.yearsUsed,
+    showsSampled: setlist.showsSampled,
+    totalShows: setlist.totalShows,
+    source: averageSetlistSource(setlist),
+    matched: false,
+    songs: exportSongs(songs),
+  };
+}
+
+/**
+ * Fetches one concert's setlist for export
+ *
+ * Without matching, only setlist.fm is queried, so no music provider login is
+ * needed and the access token of the request is ignored.
+ *
+ * @param request - Request parameters including setlist ID or URL
+ * @param match - Whether to match the songs to the music provider's tracks
+ * @returns Songs in the order they were played, and matches when requested
+ * @throws ValidationError if the setlist ID is invalid
+ * @throws AuthenticationError if matching and the access token is invalid
+ * @throws ExternalAPIError if external APIs are unavailable
+ * @throws DataNotFoundError if the setlist does not exist or has no songs
+ */
+export async function exportSingleSetlist(
+  request: CreateSetlistPlaylistRequest,
+  match: boolean
+): Promise<SetlistExport> {
+  if (match) {
+    return exportPreview(await previewSetlistPlaylist(request));
+  }
+
+  const setlistId = request.setlist ? parseSetlistId(request.setlist) : null;
+  if (!setlistId) {
+    throw new ValidationError('setlist must be a setlist.fm setlist ID or URL', {
+      field: 'setlist',
+      value: request.setlist,
+    });
+  }
+
+  const setlist = await getSetlist(setlistId, getSetlistFmApiKey(), request.cleaning);
+  const year = parseInt(setlist.show.eventDate.slice(0, 4), 10);
+
+  return {
+    artistName: setlist.artistName,
+    year,
+    yearsUsed: [year],
+    showsSampled: 1,
+    totalShows: 1,
+    show: setlist.show,
+    source: showSource(setlist.show),
+    matched: false,
+    songs: exportSongs(setlist.songs),
+  };
+}
+
+/**
+ * Main workflow function that orchestrates the entire playlist creation process
+ * @param request - Request parameters including artist ID, optional year, and access token
+ * @returns Playlist creation result with ID, track count, year, artist name and shows sampled
+ * @throws ValidationError if required parameters are missing
+ * @throws AuthenticationError if access token is invalid
+ * @throws ExternalAPIError if external APIs are unavailable
+ * @throws DataNotFoundError if no setlist data is found
+ */
+export async function handleCreatePlaylist(
+  request: CreatePlaylistRequest
+): Promise<CreatePlaylistResponse> {
+  validatePlaylistOptions(request);
+
+  // Steps 1 and 2: Fetch the average setlist and match it to the provider's tracks
+  const preview = await previewPlaylist(request);
+
+  // Step 3: Create playlist with matched tracks (Requirement 4.1)
+  return createPlaylistFromPreview(preview, request.accessToken, request);
+}
+
+/**
+ * Creates a playlist from the exact setlist of one specific concert
+ * @param request - Request parameters including setlist ID or URL and access token
+ * @returns Playlist creation result with ID, track count, year, artist name and show details
+ * @throws ValidationError if required parameters are missing or the setlist ID is invalid
+ * @throws AuthenticationError if access token is invalid
+ * @throws ExternalAPIError if external APIs are unavailable
+ * @throws DataNotFoundError if the setlist does not exist or has no songs
+ */
+export async function handleCreateSetlistPlaylist(
+  request: CreateSetlistPlaylistRequest
+): Promise<CreatePlaylistResponse> {
+  validatePlaylistOptions(request);
+
+  // Steps 1 and 2: Fetch the concert's setlist and match it to the provider's tracks
+  const preview = await previewSetlistPlaylist(request);
+
+  // Step 3: Create a playlist named after the date and venue
+  return createPlaylistFromPreview(preview, request.accessToken, request);
+}
+
+/**
+ * Checks that the optional text fields of a client-supplied object are strings
+ * @param value - Object to check
+ * @param fields - Names of the optional text fields
+ * @param field - Name of the object, for the error
+ * @throws ValidationError if a field is present but not a string
+ */
+function validateTextFields(
+  value: Record<string, unknown>,
+  fields: string[],
+  field: string
+): void {
+  for (const name of fields) {
+    if (value[name] !== undefined && typeof value[name] !== 'string') {
+      throw new ValidationError(`${field}.${name} must be a string`, {
+        field: `${field}.${name}`,
+        value: value[name],
+      });
+    }
+  }
+}
+
+/**
+ * Validates the years, show and source a reviewed preview was built from,
+ * which come back from the client and end up in the playlist name and description
+ * @param request - Commit request to validate
+ * @throws ValidationError if any of them is malformed
+ */
+function validateCommitSource(
+  request: Pick<CommitPlaylistRequest, 'yearsUsed' | 'show' | 'source'>
+): void {
+  const { yearsUsed, show, source } = request;
+
+  if (
+    yearsUsed !== undefined &&
+    !(Array.isArray(yearsUsed) && yearsUsed.length > 0 && yearsUsed.every(Number.isInteger))
+  ) {
+    throw new ValidationError('yearsUsed must be a non-empty list of years', {
+      field: 'yearsUsed',
+      value: yearsUsed,
+    });
+  }
+
+  if (show !== undefined) {
+    if (
+      typeof show !== 'object' ||
+      show === null ||
+      typeof show.eventDate !== 'string' ||
+      !isIsoDate(show.eventDate)
+    ) {
+      throw new ValidationError('show.eventDate must be a date in YYYY-MM-DD format', {
+        field: 'show',
+        value: show,
+      });
+    }
+    validateTextFields({ ...show }, ['tourName', 'venueName', 'cityName', 'countryCode'], 'show');
+  }
+
+  if (source !== undefined) {
+    if (!(Number.isInteger(source?.showsSampled) && source.showsSampled >= 1)) {
+      throw new ValidationError('source.showsSampled must be a positive integer', {
+        field: 'source',
+        value: source,
+      });
+    }
+    const { dateRange } = source;
+    if (
+      dateRange !== undefined &&
+      !(
+        typeof dateRange === 'object' &&
+        dateRange !== null &&
+        typeof dateRange.from === 'string' &&
+        typeof dateRange.to === 'string' &&
+        isIsoDate(dateRange.from) &&
+        isIsoDate(dateRange.to) &&
+        dateRange.from <= dateRange.to
+      )
+    ) {
+      throw new ValidationError(
+        'source.dateRange must hold from and to dates in YYYY-MM-DD format',
+        { field: 'source.dateRange', value: dateRange }
+      );
+    }
+    validateTextFields({ ...source }, ['tourName', 'venueName'], 'source');
+  }
+}
+
+/**
+ * Creates a playlist from a reviewed preview, with the track list as edited
+ * @param request - Preview details and the track URIs to add, in order
+ * @returns Playlist creation result with ID, track count and year
+ * @throws ValidationError if required parameters are missing or a URI is malformed
+ * @throws AuthenticationError if access token is invalid
+ * @throws ExternalAPIError if the music provider is unavailable
+ */
+export async function handleCommitPlaylist(
+  request: CommitPlaylistRequest
+): Promise<PlaylistCreationResult> {
+  const {
+    artistName,
+    year,
+    yearsUsed,
+    show,
+    source,
+    trackUris,
+    encoreStartsAt,
+    sync,
+    nameTemplate,
+    visibility,
+    accessToken,
+  } = request;
+
+  if (!accessToken || accessToken.trim() === '') {
+    throw new ValidationError('Access token is required', { field: 'accessToken' });
   }
 
   if (!artistName || artistName.trim() === '') {
     throw new ValidationError('Artist name is required', { field: 'artistName' });
   }
 
-  try {
-    // Step 1: Fetch average setlist from setlist.fm (Requirement 2.1)
-    const setlistParams: AverageSetlistParams = {
-      artistId,
-      year,
-    };
-    
-    const apiKey = process.env.SETLISTFM_API_KEY;
-    if (!apiKey) {
-      throw new ValidationError('setlist.fm API key is not configured', {
-        field: 'SETLISTFM_API_KEY',
+  if (!Number.isInteger(year)) {
+    throw new ValidationError('year must be an integer', { field: 'year', value: year });
+  }
+
+  const provider = getMusicProvider(request.provider);
+  if (!Array.isArray(trackUris) || trackUris.length === 0) {
+    throw new ValidationError('trackUris must be a non-empty list', { field: 'trackUris' });
+  }
+  const invalidUri = trackUris.find(
+    (uri) => typeof uri !== 'string' || !provider.isTrackUri(uri)
+  );
+  if (invalidUri !== undefined) {
+    throw new ValidationError(`trackUris must be ${provider.label} track URIs`, {
+      field: 'trackUris',
+      value: invalidUri,
+    });
+  }
+
+  if (
+    encoreStartsAt !== undefined &&
+    !(Number.isInteger(encoreStartsAt) && encoreStartsAt >= 1 && encoreStartsAt <= trackUris.length)
+  ) {
+    throw new ValidationError('encoreStartsAt must be a track number within the playlist', {
+      field: 'encoreStartsAt',
+      value: encoreStartsAt,
+    });
+  }
+
+  validatePlaylistOptions(request);
+  validateCommitSource(request);
+
+  return createPlaylist({
+    artistName,
+    year,
+    trackUris,
+    accessToken,
+    encoreStartsAt,
+    ...(yearsUsed ? { yearsUsed } : {}),
+    ...(show ? { show } : {}),
+    ...(source ? { source } : {}),
+    ...(sync ? { sync } : {}),
+    ...(nameTemplate ? { nameTemplate } : {}),
+    ...(visibility ? { visibility } : {}),
+    provider,
+  });
+}
+
+/**
+ * Validates the lineup and ordering of a festival request
+ * @param request - Festival request to validate
+ * @throws ValidationError if the lineup is empty, too long or malformed, or the cap or order
+ *   is out of range
+ */
+function validateFestivalRequest(request: CreateFestivalPlaylistRequest): void {
+  const { artists, songsPerArtist, order, festivalName } = request;
+
+  if (!Array.isArray(artists) || artists.length === 0) {
+    throw new ValidationError('artists must be a non-empty list', { field: 'artists' });
+  }
+  if (artists.length > MAX_FESTIVAL_ARTISTS) {
+    throw new ValidationError(`A festival can have at most ${MAX_FESTIVAL_ARTISTS} artists`, {
+      field: 'artists',
+      count: artists.length,
+    });
+  }
+  artists.forEach((artist, index) => {
+    if (typeof artist?.artistId !== 'string' || artist.artistId.trim() === '') {
+      throw new ValidationError('Every artist needs an artistId', {
+        field: `artists[${index}].artistId`,
       });
     }
+    if (artist.year !== undefined && !Number.isInteger(artist.year)) {
+      throw new ValidationError('year must be an integer', {
+        field: `artists[${index}].year`,
+        value: artist.year,
+      });
+    }
+  });
 
-    const songs = await getAverageSetlist(setlistParams, apiKey);
+  if (
+    songsPerArtist !== undefined &&
+    !(Number.isInteger(songsPerArtist) && songsPerArtist >= 1 && songsPerArtist <= MAX_SONGS_PER_ARTIST)
+  ) {
+    throw new ValidationError(
+      `songsPerArtist must be an integer from 1 to ${MAX_SONGS_PER_ARTIST}`,
+      { field: 'songsPerArtist', value: songsPerArtist }
+    );
+  }
 
-    // Step 2: Match songs to Spotify tracks (Requirement 3.1)
-    const trackResults = await matchAllTracks(songs, artistName, accessToken);
+  if (order !== undefined && !FESTIVAL_ORDERS.includes(order)) {
+    throw new ValidationError(`order must be one of ${FESTIVAL_ORDERS.join(', ')}`, {
+      field: 'order',
+      value: order,
+    });
+  }
 
-    // Filter out tracks that weren't found and collect URIs
-    const trackUris = trackResults
-      .filter((result) => result.found && result.trackUri !== null)
-      .map((result) => result.trackUri as string);
+  if (festivalName !== undefined && (typeof festivalName !== 'string' || festivalName.trim() === '')) {
+    throw new ValidationError('festivalName must not be empty', {
+      field: 'festivalName',
+      value: festivalName,
+    });
+  }
+}
 
-    // Step 3: Create playlist with matched tracks (Requirement 4.1)
-    const actualYear = year ?? new Date().getFullYear();
-    const playlistResult = await createPlaylist({
-      artistName,
-      year: actualYear,
-      trackUris,
-      accessToken,
+/**
+ * A track of a festival playlist and the lineup position of the artist it came from
+ */
+interface FestivalTrack {
+  uri: string;
+  artistIndex: number;
+}
+
+/**
+ * Combines the artists' tracks into one playlist order. A track several
+ * artists play, e.g. a shared cover, is kept once, for the first of them.
+ * @param trackLists - Track URIs of each artist, in running order
+ * @param order - Running order, or one track of each artist in turn
+ * @returns Tracks in playlist order
+ */
+function combineFestivalTracks(trackLists: string[][], order: FestivalOrder): FestivalTrack[] {
+  const ordered: FestivalTrack[] = [];
+  if (order === 'running-order') {
+    trackLists.forEach((tracks, artistIndex) => {
+      ordered.push(...tracks.map((uri) => ({ uri, artistIndex })));
     });
+  } else {
+    const longest = Math.max(0, ...trackLists.map((tracks) => tracks.length));
+    for (let index = 0; index < longest; index++) {
+      trackLists.forEach((tracks, artistIndex) => {
+        if (index < tracks.length) {
+          ordered.push({ uri: tracks[index], artistIndex });
+        }
+      });
+    }
+  }
 
-    return playlistResult;
-  } catch (error) {
-    // Handle errors and return appropriate responses (Requirement 5.1, 5.2, 5.3)
-    if (error instanceof Error) {
-      throw error;
+  const seen = new Set<string>();
+  return ordered.filter((track) => {
+    if (seen.has(track.uri)) {
+      return false;
     }
-    throw new Error('An unexpected error occurred');
+    seen.add(track.uri);
+    return true;
+  });
+}
+
+/**
+ * Creates one playlist covering a festival lineup
+ *
+ * Each artist's average setlist is built and matched like a single-artist
+ * playlist, capped to their most played songs. A few artists are processed
+ * at a time so the lineup fits in one function run. Artists without setlist
+ * data or without a match on the provider are skipped and reported as such.
+ *
+ * @param request - Lineup, songs per artist, ordering and access token
+ * @returns Playlist creation result with a per-artist breakdown
+ * @throws ValidationError if the request is malformed or an artist is ambiguous on the music provider
+ * @throws AuthenticationError if access token is invalid
+ * @throws ExternalAPIError if external APIs are unavailable
+ * @throws DataNotFoundError if no artist of the lineup has a matched song
+ */
+export async function handleCreateFestivalPlaylist(
+  request: CreateFestivalPlaylistRequest
+): Promise<FestivalPlaylistResponse> {
+  const {
+    festivalName,
+    artists,
+    songsPerArtist = DEFAULT_SONGS_PER_ARTIST,
+    order = 'running-order',
+    maxPages,
+    cleaning,
+    matching,
+    versionPreference,
+    accessToken,
+  } = request;
+
+  if (!accessToken || accessToken.trim() === '') {
+    throw new ValidationError('Access token is required', { field: 'accessToken' });
   }
+  validateFestivalRequest(request);
+  validatePlaylistOptions(request);
+  const provider = getMusicProvider(request.provider);
+
+  // Steps 1 and 2: Build and match each artist's setlist
+  const outcomes = await mapWithConcurrency(
+    artists,
+    FESTIVAL_CONCURRENCY,
+    async (artist, index): Promise<PlaylistPreview | SkippedFestivalArtist> => {
+      try {
+        return await previewPlaylist({
+          artistId: artist.artistId,
+          year: artist.year,
+          filters: artist.filters,
+          providerArtistId: artist.providerArtistId,
+          maxSongs: songsPerArtist,
+          markEncore: false,
+          maxPages,
+          cleaning,
+          matching: {
+            ...matching,
+            concurrency: Math.min(
+              matching?.concurrency ?? FESTIVAL_MATCH_CONCURRENCY,
+              FESTIVAL_MATCH_CONCURRENCY
+            ),
+          },
+          versionPreference,
+          provider: provider.name,
+          accessToken,
+        });
+      } catch (error) {
+        // Small acts often have no setlists; the rest of the lineup still makes a playlist
+        if (error instanceof DataNotFoundError) {
+          return { artistId: artist.artistId, status: 'skipped', reason: error.message };
+        }
+        // Point at the artist, e.g. so an ambiguous one can be settled with a providerArtistId
+        if (error instanceof ValidationError) {
+          error.details = { ...error.details, artistIndex: index, artistId: artist.artistId };
+        }
+        throw error;
+      }
+    }
+  );
+  const previews = outcomes.filter(
+    (outcome): outcome is PlaylistPreview => !('status' in outcome)
+  );
+
+  const tracks = combineFestivalTracks(
+    outcomes.map((outcome) => ('status' in outcome ? [] : outcome.trackUris)),
+    order
+  );
+  const trackUris = tracks.map((track) => track.uri);
+  if (trackUris.length === 0) {
+    throw new DataNotFoundError(`None of the lineup's songs were found on ${provider.label}`, {
+      artistIds: artists.map((artist) => artist.artistId),
+    });
+  }
+
+  const lineup = previews.map((preview) => preview.artistName);
+  const name = festivalName?.trim() || lineup.join(', ');
+  const yearsUsed = [...new Set(previews.flatMap((preview) => preview.yearsUsed))].sort(
+    (a, b) => a - b
+  );
+  const showsSampled = previews.reduce((total, preview) => total + preview.showsSampled, 0);
+  const totalShows = previews.reduce((total, preview) => total + preview.totalShows, 0);
+  // ISO dates compare correctly as strings
+  const fromDates = previews.flatMap((preview) => preview.source.dateRange?.from ?? []).sort();
+  const toDates = previews.flatMap((preview) => preview.source.dateRange?.to ?? []).sort();
+
+  // Step 3: Create one playlist for the whole lineup
+  const { sync, nameTemplate, visibility } = request;
+  const playlistResult = await createPlaylist({
+    artistName: name,
+    year: Math.max(...yearsUsed),
+    yearsUsed,
+    trackUris,
+    accessToken,
+    lineup,
+    source: {
+      showsSampled,
+      ...(fromDates.length > 0
+        ? { dateRange: { from: fromDates[0], to: toDates[toDates.length - 1] } }
+        : {}),
+    },
+    ...(sync ? { sync } : {}),
+    ...(nameTemplate ? { nameTemplate } : {}),
+    ...(visibility ? { visibility } : {}),
+    provider,
+  });
+
+  const added = tracks.slice(0, playlistResult.tracksAdded);
+  return {
+    ...playlistResult,
+    festivalName: name,
+    order,
+    artists: outcomes.map((outcome, index) =>
+      'status' in outcome
+        ? outcome
+        : {
+            artistId: artists[index].artistId,
+            status: 'included',
+            artistName: outcome.artistName,
+            providerArtist: outcome.providerArtist,
+            year: outcome.year,
+            yearsUsed: outcome.yearsUsed,
+            songs: outcome.songs,
+            unmatched: outcome.unmatched,
+            tracksIncluded: added.filter((track) => track.artistIndex === index).length,
+            summary: outcome.summary,
+          }
+    ),
+    summary: summarizeMatches(
+      previews.flatMap((preview) => preview.songs),
+      showsSampled,
+      totalShows
+    ),
+  };
 }
@@ -0,0 +1,121 @@
+/**
+ * Cache of song-to-track matches, so repeated playlists skip Spotify searches
+ */
+
+import { CacheStore } from './cache-store.js';
+import { logError } from './error-handler.js';
+import { normalizeTitle, RecordingVersion } from './track-scorer.js';
+import { MatchedTrack } from './track-matcher.js';
+
+/** Name of the cache store holding track matches */
+export const MATCH_CACHE_NAME = 'track-matches';
+
+/** Matches are stable, so they are kept for 30 days */
+export const MATCH_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Songs without a match are retried daily, in case they have been released since */
+export const NO_MATCH_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Best candidate found for a song, whether or not it was convincing
+ * enough; the caller compares the confidence against its own threshold
+ */
+export interface CachedMatch {
+  trackUri: string | null;
+  confidence?: number;
+  /** Title, artists, album and artwork of the track */
+  track?: MatchedTrack;
+}
+
+export interface MatchCacheKey {
+  songName: string;
+  artistName: string;
+  /** Pinned artist ID, which changes how candidates are scored */
+  artistId?: string;
+  version: RecordingVersion;
+  market?: string;
+  /** Music provider searched (defaults to spotify) */
+  provider?: string;
+}
+
+/**
+ * Encodes a name as one key segment
+ */
+function segment(name: string): string {
+  return encodeURIComponent(normalizeTitle(name) || name.toLowerCase());
+}
+
+/**
+ * Builds the key prefix shared by every cached match of an artist, or of one of their songs
+ * @param artistName - Name of the artist
+ * @param songName - Name of the song, to narrow the prefix to it
+ * @returns Key prefix
+ */
+export function matchCachePrefix(artistName: string, songName?: string): string {
+  return songName === undefined
+    ? `${segment(artistName)}/`
+    : `${segment(artistName)}/${segment(songName)}/`;
+}
+
+/**
+ * Builds the cache key of a match
+ *
+ * Names are normalized, so "Heroes - 2017 Remaster" and "heroes" share an
+ * entry. The pinned artist, market and version are part of the key because
+ * each can change which track is the best match. Providers other than
+ * Spotify get their own entries; Spotify keys keep their original form, so
+ * entries cached before providers existed stay valid.
+ *
+ * @param key - Song, artist, market, version and provider of the search
+ * @returns Cache key
+ */
+export function matchCacheKey(key: MatchCacheKey): string {
+  const artistId = key.artistId ?? 'any';
+  const market = key.market?.toUpperCase() ?? 'any';
+  const provider = key.provider && key.provider !== 'spotify' ? `/${key.provider}` : '';
+  return `${matchCachePrefix(key.artistName, key.songName)}${artistId}/${market}/${key.version}${provider}`;
+}
+
+/**
+ * Reads a cached match, treating cache failures as a miss
+ * @param cache - Cache store
+ * @param key - Song, artist, market and version of the search
+ * @returns Cached match, or null on a miss
+ */
+export async function readCachedMatch(
+  cache: CacheStore,
+  key: MatchCacheKey
+): Promise<CachedMatch | null> {
+  try {
+    return await cache.get<CachedMatch>(matchCacheKey(key));
+  } catch (error) {
+    logError(error instanceof Error ? error : new Error(String(error)), {
+      songName: key.songName,
+      artistName: key.artistName,
+    });
+    return null;
+  }
+}
+
+/**
+ * Stores a match, logging rather than failing if the cache is unavailable
+ * @param cache - Cache store
+ * @param key - Song, artist, market and version of the search
+ * @param match - Best candidate found
+ * @param ttlSeconds - How long to keep the entry
+ */
+export async function writeCachedMatch(
+  cache: CacheStore,
+  key: MatchCacheKey,
+  match: CachedMatch,
+  ttlSeconds: number
+): Promise<void> {
+  try {
+    await cache.set(matchCacheKey(key), match, ttlSeconds);
+  } catch (error) {
+    logError(error instanceof Error ? error : new Error(String(error)), {
+      songName: key.songName,
+      artistName: key.artistName,
+    });
+  }
+}
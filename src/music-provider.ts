@@ -0,0 +1,130 @@
+/**
+ * Pluggable music service that tracks are matched on and playlists created in
+ *
+ * Spotify is the default; Deezer can be selected per request. Each provider
+ * turns its API's failures into AuthenticationError (the access token was
+ * rejected) or ExternalAPIError (the service is unavailable), so matching and
+ * playlist creation handle every provider alike.
+ */
+
+import { ValidationError } from './error-handler.js';
+import { TrackCandidate } from './track-scorer.js';
+import { PlaylistVisibility } from './playlist-creator.js';
+import { createSpotifyProvider } from './spotify-provider.js';
+import { createDeezerProvider } from './deezer-provider.js';
+
+export type MusicProviderName = 'spotify' | 'deezer';
+
+export const MUSIC_PROVIDERS: MusicProviderName[] = ['spotify', 'deezer'];
+
+/**
+ * An artist on the music service
+ */
+export interface ProviderArtist {
+  id: string;
+  name: string;
+  /** Popularity from 0 to 100 */
+  popularity: number;
+  genres: string[];
+}
+
+/**
+ * Track search for a setlist song
+ */
+export interface TrackQuery {
+  songName: string;
+  artistName: string;
+  /** Extra word to search for, e.g. "live" */
+  keyword?: string;
+  /** ISO 3166-1 alpha-2 country code the tracks must be playable in, where supported */
+  market?: string;
+  /** Number of candidates to return */
+  limit: number;
+}
+
+/**
+ * A playlist and the user who owns it
+ */
+export interface ProviderPlaylist {
+  id: string;
+  ownerId: string;
+}
+
+/**
+ * Name, description and, if given, visibility of a playlist
+ */
+export interface PlaylistDetails {
+  name: string;
+  description: string;
+  visibility?: PlaylistVisibility;
+}
+
+export interface MusicProvider {
+  name: MusicProviderName;
+  /** Service name used in messages, e.g. "Spotify" */
+  label: string;
+  /** Most tracks a single add request may carry */
+  maxTracksPerRequest: number;
+  /** Checks whether a track URI belongs to the service */
+  isTrackUri(uri: string): boolean;
+  /** Searches tracks, returning candidates in the service's order */
+  searchTracks(query: TrackQuery, accessToken: string): Promise<TrackCandidate[]>;
+  /** Searches artists by name */
+  searchArtists(artistName: string, accessToken: string): Promise<ProviderArtist[]>;
+  /** Looks up an artist, returning null for unknown IDs */
+  getArtist(artistId: string, accessToken: string): Promise<ProviderArtist | null>;
+  /** Returns the ID of the user the access token belongs to */
+  getUserId(accessToken: string): Promise<string>;
+  /** Creates an empty playlist and returns its ID */
+  createPlaylist(userId: string, details: PlaylistDetails, accessToken: string): Promise<string>;
+  /** Updates a playlist's name, description and, if given, visibility */
+  updatePlaylist(playlistId: string, details: PlaylistDetails, accessToken: string): Promise<void>;
+  /** Looks up a playlist and its owner, returning null if it no longer exists */
+  findPlaylist(playlistId: string, accessToken: string): Promise<ProviderPlaylist | null>;
+  /** Finds a playlist owned by the user by its exact name */
+  findPlaylistByName(userId: string, name: string, accessToken: string): Promise<string | null>;
+  /** Lists the track URIs of a playlist, in order */
+  getPlaylistTrackUris(playlistId: string, accessToken: string): Promise<string[]>;
+  /** Appends at most maxTracksPerRequest tracks to a playlist */
+  addTracks(playlistId: string, trackUris: string[], accessToken: string): Promise<void>;
+  /** Replaces a playlist's items with at most maxTracksPerRequest tracks */
+  replaceTracks(playlistId: string, trackUris: string[], accessToken: string): Promise<void>;
+}
+
+/**
+ * Returns a music provider by name
+ * @param name - Provider name (defaults to spotify)
+ * @returns Music provider
+ * @throws ValidationError if the name is unknown
+ */
+export function getMusicProvider(name: string = 'spotify'): MusicProvider {
+  switch (name) {
+    case 'spotify':
+      return createSpotifyProvider();
+    case 'deezer':
+      return createDeezerProvider();
+    default:
+      throw new ValidationError(`provider must be one of ${MUSIC_PROVIDERS.join(', ')}`, {
+        field: 'provider',
+        value: name,
+      });
+  }
+}
+
+/**
+ * Builds the web URL of a track from its URI, e.g.
+ * spotify:track:4uLU6hMCjMI75M1A2tKUQC or deezer:track:3135556
+ * @param trackUri - Track URI of any provider
+ * @returns URL players and browsers can open, or the URI itself if the provider is unknown
+ */
+export function trackUrl(trackUri: string): string {
+  const [service, , id] = trackUri.split(':');
+  switch (service) {
+    case 'spotify':
+      return `https://open.spotify.com/track/${id}`;
+    case 'deezer':
+      return `https://www.deezer.com/track/${id}`;
+    default:
+      return trackUri;
+  }
+}
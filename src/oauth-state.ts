@@ -0,0 +1,121 @@
+/**
+ * OAuth state cookie binding a login to the browser that started it
+ *
+ * The login endpoint stores the state and PKCE code verifier in a signed,
+ * short-lived cookie; the callback only accepts a state matching that
+ * cookie, so a callback forged by another site is rejected.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AuthenticationError } from './error-handler.js';
+import { parseCookies } from './session.js';
+
+export const OAUTH_STATE_COOKIE_NAME = 'oauth_state';
+
+/** Time allowed to complete the login on Spotify */
+export const OAUTH_STATE_MAX_AGE_SECONDS = 10 * 60;
+
+export interface OAuthState {
+  state: string;
+  /** PKCE code verifier sent with the token exchange */
+  codeVerifier: string;
+  /** Milliseconds since the epoch after which the login is rejected */
+  expiresAt: number;
+}
+
+/**
+ * Signs a payload with the session secret
+ */
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Compares two strings in constant time
+ * @param a - First string, e.g. a secret sent by the client
+ * @param b - Second string, e.g. the expected secret
+ * @returns Whether the strings are equal
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Builds the Set-Cookie header storing the state of a login
+ * @param state - State and code verifier of the login
+ * @param secret - Session secret used to sign the cookie
+ * @returns Set-Cookie header value
+ */
+export function oauthStateCookie(state: OAuthState, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(state)).toString('base64url');
+  return `${OAUTH_STATE_COOKIE_NAME}=${payload}.${sign(payload, secret)}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${OAUTH_STATE_MAX_AGE_SECONDS}`;
+}
+
+/**
+ * Builds the Set-Cookie header removing the state cookie once the login is over
+ * @returns Set-Cookie header value
+ */
+export function clearOAuthStateCookie(): string {
+  return `${OAUTH_STATE_COOKIE_NAME}=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0`;
+}
+
+/**
+ * Verifies the state returned to the callback against the browser's state cookie
+ * @param headers - Callback request headers
+ * @param returnedState - State query parameter of the callback
+ * @param secret - Session secret the cookie was signed with
+ * @returns The verified login state, including the PKCE code verifier
+ * @throws AuthenticationError with code OAUTH_STATE_MISSING, OAUTH_STATE_INVALID,
+ *   OAUTH_STATE_EXPIRED or OAUTH_STATE_MISMATCH
+ */
+export function verifyOAuthState(
+  headers: Record<string, string | undefined>,
+  returnedState: string | undefined,
+  secret: string
+): OAuthState {
+  const cookie = parseCookies(headers?.cookie ?? headers?.Cookie)[OAUTH_STATE_COOKIE_NAME];
+  if (!returnedState || !cookie) {
+    throw new AuthenticationError(
+      'Login state is missing, please log in again',
+      { hasState: Boolean(returnedState), hasCookie: Boolean(cookie) },
+      'OAUTH_STATE_MISSING'
+    );
+  }
+
+  const [payload, signature] = cookie.split('.');
+  let oauthState: OAuthState | null = null;
+  if (payload && signature && safeEqual(signature, sign(payload, secret))) {
+    try {
+      oauthState = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      oauthState = null;
+    }
+  }
+  if (typeof oauthState?.state !== 'string' || typeof oauthState.expiresAt !== 'number') {
+    throw new AuthenticationError(
+      'Login state cookie is invalid, please log in again',
+      undefined,
+      'OAUTH_STATE_INVALID'
+    );
+  }
+
+  if (oauthState.expiresAt <= Date.now()) {
+    throw new AuthenticationError(
+      'Login took too long, please log in again',
+      { expiredAt: new Date(oauthState.expiresAt).toISOString() },
+      'OAUTH_STATE_EXPIRED'
+    );
+  }
+
+  if (!safeEqual(oauthState.state, returnedState)) {
+    throw new AuthenticationError(
+      'Login state does not match, please log in again',
+      undefined,
+      'OAUTH_STATE_MISMATCH'
+    );
+  }
+
+  return oauthState;
+}
@@ -2,6 +2,7 @@
  * OAuth handler for Spotify authentication
  */
 
+import { createHash, randomBytes } from 'crypto';
 import { AuthenticationError } from './error-handler.js';
 
 export interface SpotifyAuthConfig {
@@ -18,13 +19,61 @@ export interface TokenResponse {
   refresh_token?: string;
 }
 
+/**
+ * Spotify tokens of a logged-in user, kept server-side in the session cookie
+ */
+export interface SpotifySession {
+  accessToken: string;
+  refreshToken?: string;
+  /** Expiry of the access token as milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * Access tokens this close to expiry are refreshed before use, so they
+ * cannot expire part-way through creating a playlist
+ */
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const TOKEN_ENDPOINT = 'https://accounts.spotify.com/api/token';
+
+/**
+ * Generates a cryptographically random state parameter for CSRF protection
+ * @returns URL-safe random string
+ */
+export function generateState(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Generates a PKCE code verifier
+ * @returns URL-safe random string of 86 characters, within the 43 to 128 PKCE allows
+ */
+export function generateCodeVerifier(): string {
+  return randomBytes(64).toString('base64url');
+}
+
+/**
+ * Derives the S256 PKCE code challenge of a code verifier
+ * @param codeVerifier - Code verifier
+ * @returns Base64url encoded SHA-256 hash of the verifier
+ */
+export function codeChallengeFor(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
 /**
  * Generates Spotify authorization URL with CSRF protection
  * @param config - Spotify authentication configuration
  * @param state - State parameter for CSRF protection
+ * @param codeChallenge - PKCE code challenge, sent with the S256 method when given
  * @returns Authorization URL
  */
-export function generateAuthUrl(config: SpotifyAuthConfig, state: string): string {
+export function generateAuthUrl(
+  config: SpotifyAuthConfig,
+  state: string,
+  codeChallenge?: string
+): string {
   const authEndpoint = 'https://accounts.spotify.com/authorize';
   const params = new URLSearchParams({
     client_id: config.clientId,
@@ -32,6 +81,7 @@ export function generateAuthUrl(config: SpotifyAuthConfig, state: string): strin
     redirect_uri: config.redirectUri,
     state: state,
     scope: config.scopes.join(' '),
+    ...(codeChallenge ? { code_challenge_method: 'S256', code_challenge: codeChallenge } : {}),
   });
 
   return `${authEndpoint}?${params.toString()}`;
@@ -41,27 +91,102 @@ export function generateAuthUrl(config: SpotifyAuthConfig, state: string): strin
  * Exchanges authorization code for access token
  * @param code - Authorization code from Spotify callback
  * @param config - Spotify authentication configuration
+ * @param codeVerifier - PKCE code verifier, required if the authorization URL had a challenge
  * @returns Token response with access token
  * @throws AuthenticationError if token exchange fails
  */
 export async function exchangeCodeForToken(
   code: string,
-  config: SpotifyAuthConfig
+  config: SpotifyAuthConfig,
+  codeVerifier?: string
 ): Promise<TokenResponse> {
-  const tokenEndpoint = 'https://accounts.spotify.com/api/token';
-  
   const params = new URLSearchParams({
     grant_type: 'authorization_code',
     code: code,
     redirect_uri: config.redirectUri,
+    ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
   });
 
+  return requestToken(params, config, 'Token exchange');
+}
+
+/**
+ * Exchanges a refresh token for a new access token
+ * @param refreshToken - Refresh token from an earlier token response
+ * @param config - Spotify authentication configuration
+ * @returns Token response with a new access token, and a new refresh token if Spotify rotated it
+ * @throws AuthenticationError if the refresh token was revoked or the request fails
+ */
+export async function refreshAccessToken(
+  refreshToken: string,
+  config: SpotifyAuthConfig
+): Promise<TokenResponse> {
+  const params = new URLSearchParams({
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  });
+
+  return requestToken(params, config, 'Token refresh');
+}
+
+/**
+ * Builds a session from a token response
+ * @param tokens - Token response from Spotify
+ * @param previous - Session being refreshed, whose refresh token is kept if Spotify sent none
+ * @returns Session holding the tokens and the access token's expiry
+ */
+export function sessionFromTokens(tokens: TokenResponse, previous?: SpotifySession): SpotifySession {
+  const refreshToken = tokens.refresh_token ?? previous?.refreshToken;
+  return {
+    accessToken: tokens.access_token,
+    ...(refreshToken ? { refreshToken } : {}),
+    expiresAt: Date.now() + tokens.expires_in * 1000,
+  };
+}
+
+/**
+ * Returns a session whose access token is valid, refreshing it when it has
+ * expired or is about to
+ * @param session - Current session
+ * @param config - Spotify authentication configuration
+ * @returns The session, and whether it was refreshed and must be stored again
+ * @throws AuthenticationError if the token expired and cannot be refreshed
+ */
+export async function ensureFreshSession(
+  session: SpotifySession,
+  config: SpotifyAuthConfig
+): Promise<{ session: SpotifySession; refreshed: boolean }> {
+  if (session.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return { session, refreshed: false };
+  }
+
+  if (!session.refreshToken) {
+    throw new AuthenticationError('Session expired, please log in again');
+  }
+
+  const tokens = await refreshAccessToken(session.refreshToken, config);
+  return { session: sessionFromTokens(tokens, session), refreshed: true };
+}
+
+/**
+ * Posts a grant to Spotify's token endpoint
+ * @param params - Grant parameters
+ * @param config - Spotify authentication configuration
+ * @param action - Name of the grant, used in error messages
+ * @returns Token response
+ * @throws AuthenticationError if the request fails
+ */
+async function requestToken(
+  params: URLSearchParams,
+  config: SpotifyAuthConfig,
+  action: string
+): Promise<TokenResponse> {
   const authHeader = Buffer.from(
     `${config.clientId}:${config.clientSecret}`
   ).toString('base64');
 
   try {
-    const response = await fetch(tokenEndpoint, {
+    const response = await fetch(TOKEN_ENDPOINT, {
       method: 'POST',
       headers: {
         'Authorization': `Basic ${authHeader}`,
@@ -73,7 +198,7 @@ export async function exchangeCodeForToken(
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
       throw new AuthenticationError(
-        `Token exchange failed: ${response.status} ${response.statusText}`,
+        `${action} failed: ${response.status} ${response.statusText}`,
         { 
           statusCode: response.status, 
           ...(typeof errorData === 'object' && errorData !== null ? errorData : {})
@@ -88,8 +213,8 @@ export async function exchangeCodeForToken(
       throw error;
     }
     if (error instanceof Error) {
-      throw new AuthenticationError(`Token exchange error: ${error.message}`);
+      throw new AuthenticationError(`${action} error: ${error.message}`);
     }
-    throw new AuthenticationError('Token exchange failed with unknown error');
+    throw new AuthenticationError(`${action} failed with unknown error`);
   }
 }
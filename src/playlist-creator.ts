@@ -1,222 +1,382 @@
 /**
- * Playlist creator for creating and populating Spotify playlists
+ * Playlist creator for creating and populating playlists on a music provider
  */
 
-import axios from 'axios';
 import { AuthenticationError, ExternalAPIError, logError } from './error-handler.js';
+import { ShowDetails, ShowSummary } from './setlist-filter.js';
+import { getMusicProvider, MusicProvider, PlaylistDetails } from './music-provider.js';
 
 export interface PlaylistCreationParams {
   artistName: string;
   year: number;
   trackUris: string[];
   accessToken: string;
+  /** 1-based track number where the encore begins, noted in the description */
+  encoreStartsAt?: number;
+  /** Set when the playlist reproduces one specific concert rather than an average */
+  show?: ShowDetails;
+  /** Every year the average was built from, when several years were merged */
+  yearsUsed?: number[];
+  /** Update a previously created playlist instead of creating another one */
+  sync?: PlaylistSyncOptions;
+  /** Playlist name with {artist}, {year}, {tour}, {venue} and {shows} placeholders */
+  nameTemplate?: string;
+  /** Defaults to private for new playlists; synced playlists keep theirs unless given */
+  visibility?: PlaylistVisibility;
+  /** Shows the setlist was built from, listed in the description */
+  source?: PlaylistSource;
+  /** Artists of a festival playlist, in running order; artistName then names the festival */
+  lineup?: string[];
+  /** Service to create the playlist on (defaults to Spotify) */
+  provider?: MusicProvider;
+}
+
+/**
+ * Who can see and edit the playlist. Spotify only allows collaborative
+ * playlists to be private.
+ */
+export type PlaylistVisibility = 'public' | 'private' | 'collaborative';
+
+export const PLAYLIST_VISIBILITIES: PlaylistVisibility[] = ['public', 'private', 'collaborative'];
+
+/** Placeholders a playlist name template may use, e.g. "{artist} live {year}" */
+export const NAME_TEMPLATE_PLACEHOLDERS = ['artist', 'year', 'tour', 'venue', 'shows'];
+
+/**
+ * Shows a playlist's setlist was built from
+ */
+export interface PlaylistSource extends ShowSummary {
+  showsSampled: number;
+}
+
+export interface PlaylistSyncOptions {
+  /** ID of the playlist to update; when omitted, the user's playlists are searched by name */
+  playlistId?: string;
+}
+
+/**
+ * Changes made by a sync, as track URIs
+ */
+export interface PlaylistSyncReport {
+  /** True when no previous playlist was found and a new one was created */
+  created: boolean;
+  /** Tracks that were not in the playlist before */
+  added: string[];
+  /** Tracks that are no longer in the playlist */
+  removed: string[];
+  /** ISO timestamp noted in the description */
+  lastUpdated: string;
 }
 
 export interface PlaylistCreationResult {
   playlistId: string;
   tracksAdded: number;
   year: number;
+  /** False when adding stopped part-way; the playlist then holds the first tracksAdded tracks */
+  complete: boolean;
+  /** Tracks that could not be added, in playlist order */
+  notAddedTrackUris?: string[];
+  /** Set when the playlist was synced */
+  sync?: PlaylistSyncReport;
 }
 
-interface SpotifyUserResponse {
-  id: string;
-  display_name: string;
+interface TrackAddOutcome {
+  tracksAdded: number;
+  notAddedTrackUris: string[];
 }
 
-interface SpotifyPlaylistResponse {
-  id: string;
-  name: string;
-  public: boolean;
-}
+/** Spotify truncates longer playlist descriptions */
+const MAX_DESCRIPTION_LENGTH = 300;
+
+/** setlist.fm asks for attribution wherever its data is shown */
+const SETLISTFM_ATTRIBUTION = 'Setlist data from setlist.fm';
 
 /**
- * Gets the authenticated user's Spotify ID
- * @param accessToken - Spotify access token
- * @returns User ID
- * @throws AuthenticationError if authentication fails
- * @throws ExternalAPIError if Spotify API is unavailable
+ * Fills in the placeholders of a playlist name template
+ *
+ * Placeholders without a value are dropped, along with separators left
+ * dangling at either end of the name.
+ *
+ * @param template - Name template, e.g. "{artist} — {tour} ({shows} shows)"
+ * @param values - Value of each placeholder
+ * @returns Playlist name
  */
-async function getUserId(accessToken: string): Promise<string> {
-  try {
-    const url = 'https://api.spotify.com/v1/me';
-    
-    const response = await axios.get<SpotifyUserResponse>(url, {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-      },
-    });
-    
-    return response.data.id;
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401) {
-        const authError = new AuthenticationError(
-          'Invalid or expired access token',
-          { statusCode: error.response.status }
-        );
-        logError(authError);
-        throw authError;
-      }
-      const apiError = new ExternalAPIError(
-        `Spotify API is unavailable: ${error.message}`,
-        'Spotify',
-        { statusCode: error.response?.status }
-      );
-      logError(apiError);
-      throw apiError;
-    }
-    throw error;
-  }
+export function renderNameTemplate(
+  template: string,
+  values: Partial<Record<string, string>>
+): string {
+  return template
+    .replace(/\{(\w+)\}/g, (_, key: string) => values[key] ?? '')
+    .replace(/\(\s*\)|\[\s*\]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s—–\-|:,·]+|[\s—–\-|:,·]+$/g, '');
 }
 
+/**
+ * Joins the description notes and the setlist.fm attribution, shortening
+ * the notes if the description would get too long for Spotify
+ */
+function withAttribution(notes: string): string {
+  const suffix = `. ${SETLISTFM_ATTRIBUTION}`;
+  const room = MAX_DESCRIPTION_LENGTH - suffix.length;
+  const text = notes.length > room ? `${notes.slice(0, room - 1).trimEnd()}…` : notes;
+  return `${text}${suffix}`;
+}
 
 /**
- * Creates a new Spotify playlist
- * @param userId - Spotify user ID
- * @param artistName - Name of the artist
- * @param year - Year of the setlist
- * @param accessToken - Spotify access token
- * @returns Playlist ID
- * @throws AuthenticationError if authentication fails
- * @throws ExternalAPIError if Spotify API is unavailable
+ * Builds the playlist name and description
+ * @param params - Playlist creation parameters
+ * @param lastUpdated - ISO timestamp noted in the description of synced playlists
+ * @returns Name, description and visibility for the playlist
  */
-async function createSpotifyPlaylist(
-  userId: string,
-  artistName: string,
-  year: number,
-  accessToken: string
-): Promise<string> {
-  try {
-    const url = `https://api.spotify.com/v1/users/${userId}/playlists`;
-    
+function buildPlaylistDetails(
+  params: PlaylistCreationParams,
+  lastUpdated?: string
+): PlaylistDetails {
+  const {
+    artistName,
+    year,
+    encoreStartsAt,
+    show,
+    yearsUsed,
+    source,
+    nameTemplate,
+    visibility,
+    lineup,
+  } = params;
+  const years =
+    yearsUsed && yearsUsed.length > 1
+      ? `${Math.min(...yearsUsed)}–${Math.max(...yearsUsed)}`
+      : String(year);
+  
+  let name: string;
+  let description: string;
+  if (lineup) {
+    // Name festival playlists after the festival, listing the lineup in the description
+    name = `${artistName} — Festival Setlists ${years}`;
+    description = `Average setlists of ${lineup.join(', ')} in ${years}`;
+  } else if (show) {
+    // Name single-concert playlists after the date and venue
+    const venue = [show.venueName, show.cityName].filter(Boolean).join(', ');
+    name = venue
+      ? `${artistName} — ${venue} ${show.eventDate}`
+      : `${artistName} — ${show.eventDate}`;
+    description = venue
+      ? `Setlist for ${artistName} at ${venue} on ${show.eventDate}`
+      : `Setlist for ${artistName} on ${show.eventDate}`;
+  } else if (yearsUsed && yearsUsed.length > 1) {
+    // Name merged playlists after the span of years they cover
+    name = `${artistName} — Average Setlist ${years}`;
+    description = `Average setlist for ${artistName} across ${yearsUsed.join(', ')}`;
+  } else {
     // Format playlist name: "{Artist} — Average Setlist {year}" (Requirement 4.2)
-    const playlistName = `${artistName} — Average Setlist ${year}`;
-    
-    const response = await axios.post<SpotifyPlaylistResponse>(
-      url,
-      {
-        name: playlistName,
-        public: false, // Set visibility to private (Requirement 4.3)
-        description: `Average setlist for ${artistName} in ${year}`,
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-    
-    return response.data.id;
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401) {
-        const authError = new AuthenticationError(
-          'Invalid or expired access token',
-          { statusCode: error.response.status }
-        );
-        logError(authError, { artistName, year });
-        throw authError;
-      }
-      const apiError = new ExternalAPIError(
-        `Spotify API is unavailable: ${error.message}`,
-        'Spotify',
-        { statusCode: error.response?.status }
-      );
-      logError(apiError, { artistName, year });
-      throw apiError;
+    name = `${artistName} — Average Setlist ${year}`;
+    description = `Average setlist for ${artistName} in ${year}`;
+  }
+  
+  if (!show && source) {
+    if (source.tourName) {
+      description += ` on ${source.tourName}`;
     }
-    throw error;
+    description += `, from ${source.showsSampled} show${source.showsSampled === 1 ? '' : 's'}`;
+    const { dateRange } = source;
+    if (dateRange) {
+      description +=
+        dateRange.from === dateRange.to
+          ? ` on ${dateRange.from}`
+          : ` between ${dateRange.from} and ${dateRange.to}`;
+    }
+  }
+  
+  if (encoreStartsAt !== undefined) {
+    description += ` — encore starts at track ${encoreStartsAt}`;
+  }
+  
+  if (lastUpdated) {
+    description += ` — last updated ${lastUpdated.slice(0, 16).replace('T', ' ')} UTC`;
   }
+  
+  if (nameTemplate) {
+    const showsSampled = source?.showsSampled ?? (show ? 1 : undefined);
+    name = renderNameTemplate(nameTemplate, {
+      artist: artistName,
+      year: years,
+      tour: source?.tourName ?? show?.tourName,
+      venue: source?.venueName ?? show?.venueName,
+      shows: showsSampled !== undefined ? String(showsSampled) : undefined,
+    }) || name;
+  }
+  
+  return {
+    name,
+    description: withAttribution(description),
+    ...(visibility ? { visibility } : {}),
+  };
 }
 
+/**
+ * Lists the URIs in `uris` that are not in `other`, without duplicates
+ */
+function difference(uris: string[], other: string[]): string[] {
+  const excluded = new Set(other);
+  return [...new Set(uris)].filter((uri) => !excluded.has(uri));
+}
 
 /**
- * Adds tracks to a Spotify playlist
- * @param playlistId - Spotify playlist ID
- * @param trackUris - Array of Spotify track URIs
- * @param accessToken - Spotify access token
+ * Adds tracks to a playlist
+ *
+ * Tracks are added in chunks as large as the provider accepts, in order. If
+ * a chunk fails, adding stops there so the playlist keeps the setlist order,
+ * and the tracks that did not make it are reported instead of thrown - even
+ * when that is all of them, since the playlist itself already exists.
+ *
+ * When replacing, the first chunk replaces the playlist's current items
+ * (clearing the playlist if there are no tracks) and later chunks are added.
+ *
+ * @param provider - Service the playlist is on
+ * @param playlistId - Provider playlist ID
+ * @param trackUris - Array of provider track URIs
+ * @param accessToken - Provider access token
+ * @param replace - Whether to replace the playlist's current items
+ * @returns Number of tracks added and the URIs that were not
  * @throws AuthenticationError if authentication fails
- * @throws ExternalAPIError if Spotify API is unavailable
  */
 async function addTracksToPlaylist(
+  provider: MusicProvider,
   playlistId: string,
   trackUris: string[],
-  accessToken: string
-): Promise<void> {
-  if (trackUris.length === 0) {
-    return;
-  }
+  accessToken: string,
+  replace = false
+): Promise<TrackAddOutcome> {
+  let tracksAdded = 0;
+  let replacePending = replace;
   
-  try {
-    const url = `https://api.spotify.com/v1/playlists/${playlistId}/tracks`;
+  while (tracksAdded < trackUris.length || replacePending) {
+    const chunk = trackUris.slice(tracksAdded, tracksAdded + provider.maxTracksPerRequest);
     
-    // Add all collected track URIs to the playlist (Requirement 4.4)
-    await axios.post(
-      url,
-      {
-        uris: trackUris,
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
+    try {
+      // Add the collected track URIs to the playlist (Requirement 4.4)
+      if (replacePending) {
+        await provider.replaceTracks(playlistId, chunk, accessToken);
+      } else {
+        await provider.addTracks(playlistId, chunk, accessToken);
       }
-    );
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401) {
-        const authError = new AuthenticationError(
-          'Invalid or expired access token',
-          { statusCode: error.response.status }
-        );
-        logError(authError, { playlistId, trackCount: trackUris.length });
-        throw authError;
+    } catch (error) {
+      // The provider has logged the failure; keep what was added so far
+      if (error instanceof ExternalAPIError) {
+        return { tracksAdded, notAddedTrackUris: trackUris.slice(tracksAdded) };
       }
-      const apiError = new ExternalAPIError(
-        `Spotify API is unavailable: ${error.message}`,
-        'Spotify',
-        { statusCode: error.response?.status }
-      );
-      logError(apiError, { playlistId, trackCount: trackUris.length });
-      throw apiError;
+      throw error;
     }
-    throw error;
+    
+    tracksAdded += chunk.length;
+    replacePending = false;
   }
+  
+  return { tracksAdded, notAddedTrackUris: [] };
 }
 
+/**
+ * Finds the playlist a sync should update, by stored ID first and then by name.
+ * Only the user's own playlists are updated: a stored ID of a playlist they
+ * merely follow falls back to the name lookup.
+ * @param provider - Service the playlist is on
+ * @param userId - Provider user ID
+ * @param name - Playlist name
+ * @param sync - Sync options
+ * @param accessToken - Provider access token
+ * @returns Playlist ID, or null if no previous playlist was found
+ */
+async function findSyncTarget(
+  provider: MusicProvider,
+  userId: string,
+  name: string,
+  sync: PlaylistSyncOptions,
+  accessToken: string
+): Promise<string | null> {
+  if (sync.playlistId) {
+    const playlist = await provider.findPlaylist(sync.playlistId, accessToken);
+    if (playlist && playlist.ownerId === userId) {
+      return playlist.id;
+    }
+  }
+  return provider.findPlaylistByName(userId, name, accessToken);
+}
 
 /**
- * Creates a Spotify playlist with the provided tracks
+ * Creates a playlist with the provided tracks on the music provider
+ *
+ * In sync mode a previously created playlist - found by its stored ID or by
+ * name among the user's playlists - has its items replaced with the new
+ * ordering and its description stamped with the update time, instead of a
+ * duplicate being created. A new playlist is only created if none is found.
+ *
  * @param params - Playlist creation parameters
- * @returns Playlist creation result with ID, track count, and year
+ * @returns Playlist creation result with ID, track count, and year, noting any
+ *   tracks that could not be added and, in sync mode, what changed
  */
 export async function createPlaylist(
   params: PlaylistCreationParams
 ): Promise<PlaylistCreationResult> {
-  const { artistName, year, trackUris, accessToken } = params;
+  const { artistName, year, trackUris, accessToken, sync, provider = getMusicProvider() } = params;
   
   try {
-    // Get authenticated user's Spotify ID (Requirement 4.1)
-    const userId = await getUserId(accessToken);
+    // Get authenticated user's ID (Requirement 4.1)
+    const userId = await provider.getUserId(accessToken);
     
-    // Create playlist with formatted name (Requirements 4.2, 4.3)
-    const playlistId = await createSpotifyPlaylist(
-      userId,
-      artistName,
-      year,
-      accessToken
+    const lastUpdated = new Date().toISOString();
+    const details = buildPlaylistDetails(params, sync ? lastUpdated : undefined);
+    
+    const existingPlaylistId = sync
+      ? await findSyncTarget(provider, userId, details.name, sync, accessToken)
+      : null;
+    
+    let playlistId: string;
+    let previousTrackUris: string[] = [];
+    if (existingPlaylistId) {
+      playlistId = existingPlaylistId;
+      previousTrackUris = await provider.getPlaylistTrackUris(playlistId, accessToken);
+    } else {
+      // Create playlist with formatted name (Requirements 4.2, 4.3),
+      // private unless asked otherwise
+      playlistId = await provider.createPlaylist(userId, details, accessToken);
+    }
+    
+    // Add all collected track URIs to the playlist (Requirement 4.4),
+    // replacing the items of a synced playlist
+    const { tracksAdded, notAddedTrackUris } = await addTracksToPlaylist(
+      provider,
+      playlistId,
+      trackUris,
+      accessToken,
+      existingPlaylistId !== null
     );
     
-    // Add all collected track URIs to the playlist (Requirement 4.4)
-    await addTracksToPlaylist(playlistId, trackUris, accessToken);
+    // A failed first chunk left a synced playlist as it was
+    const written = tracksAdded > 0 || notAddedTrackUris.length === 0;
+    if (existingPlaylistId && written) {
+      await provider.updatePlaylist(playlistId, details, accessToken);
+    }
+    
+    const playlistTrackUris = written ? trackUris.slice(0, tracksAdded) : previousTrackUris;
     
     // Return response with playlistId, tracksAdded count, and year (Requirement 4.5)
     return {
       playlistId,
-      tracksAdded: trackUris.length,
+      tracksAdded,
       year,
+      complete: notAddedTrackUris.length === 0,
+      ...(notAddedTrackUris.length > 0 ? { notAddedTrackUris } : {}),
+      ...(sync
+        ? {
+            sync: {
+              created: existingPlaylistId === null,
+              added: difference(playlistTrackUris, previousTrackUris),
+              removed: difference(previousTrackUris, playlistTrackUris),
+              lastUpdated,
+            },
+          }
+        : {}),
     };
   } catch (error) {
     // Log all API failures (Requirement 5.4)
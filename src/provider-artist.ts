@@ -0,0 +1,77 @@
+/**
+ * Artist resolver for pinning the artist on the music provider before matching tracks
+ */
+
+import { getMusicProvider, MusicProvider, ProviderArtist } from './music-provider.js';
+import { normalizeTitle } from './track-scorer.js';
+
+/**
+ * Outcome of resolving an artist name on a music provider
+ * - resolved: one artist clearly matches
+ * - ambiguous: several artists match equally well; the caller has to pick one
+ * - not-found: no artist matches the name
+ */
+export type ArtistResolution =
+  | { status: 'resolved'; artist: ProviderArtist }
+  | { status: 'ambiguous'; candidates: ProviderArtist[] }
+  | { status: 'not-found' };
+
+/**
+ * Two same-named artists closer than this in popularity are treated as ambiguous
+ */
+const AMBIGUOUS_POPULARITY_GAP = 15;
+
+/**
+ * Resolves an artist name to a single artist on the music provider
+ *
+ * Only artists whose normalized name equals the requested name are
+ * considered. The most popular one wins unless another is nearly as popular,
+ * in which case the candidates are returned for the caller to choose from.
+ *
+ * @param artistName - Name of the artist
+ * @param accessToken - Provider access token
+ * @param provider - Service to search (defaults to Spotify)
+ * @returns Resolution with the artist, the ambiguous candidates, or not-found
+ * @throws AuthenticationError if authentication fails
+ * @throws ExternalAPIError if the provider is unavailable
+ */
+export async function resolveProviderArtist(
+  artistName: string,
+  accessToken: string,
+  provider: MusicProvider = getMusicProvider()
+): Promise<ArtistResolution> {
+  const artists = await provider.searchArtists(artistName, accessToken);
+
+  const wantedName = normalizeTitle(artistName);
+  const candidates = artists
+    .filter((artist) => normalizeTitle(artist.name) === wantedName)
+    .sort((a, b) => b.popularity - a.popularity);
+
+  if (candidates.length === 0) {
+    return { status: 'not-found' };
+  }
+  if (
+    candidates.length > 1 &&
+    candidates[0].popularity - candidates[1].popularity < AMBIGUOUS_POPULARITY_GAP
+  ) {
+    return { status: 'ambiguous', candidates };
+  }
+  return { status: 'resolved', artist: candidates[0] };
+}
+
+/**
+ * Looks up an artist on the music provider by ID
+ * @param artistId - Provider artist ID
+ * @param accessToken - Provider access token
+ * @param provider - Service to ask (defaults to Spotify)
+ * @returns The artist, or null if the provider does not know the ID
+ * @throws AuthenticationError if authentication fails
+ * @throws ExternalAPIError if the provider is unavailable
+ */
+export async function getProviderArtist(
+  artistId: string,
+  accessToken: string,
+  provider: MusicProvider = getMusicProvider()
+): Promise<ProviderArtist | null> {
+  return provider.getArtist(artistId, accessToken);
+}
@@ -0,0 +1,280 @@
+/**
+ * Query-string parsing shared by the playlist endpoints
+ */
+
+import {
+  CreatePlaylistRequest,
+  CreateSetlistPlaylistRequest,
+} from './index.js';
+import { ValidationError } from './error-handler.js';
+import { PartialSongPolicy } from './song-cleaner.js';
+import { PlaylistVisibility } from './playlist-creator.js';
+import { SetlistFilters } from './setlist-filter.js';
+import { DEFAULT_MAX_PAGES, YearPolicy } from './setlist-fetcher.js';
+import { TrackMatchOptions, VersionPreference } from './track-matcher.js';
+import { MusicProviderName } from './music-provider.js';
+
+type QueryParams = Record<string, string | undefined>;
+
+/**
+ * Playlist request parsed from the query string
+ * - setlist: reproduce one concert's setlist
+ * - average: build the average setlist of an artist
+ */
+export type PlaylistQuery =
+  | { mode: 'setlist'; request: CreateSetlistPlaylistRequest }
+  | { mode: 'average'; request: CreatePlaylistRequest };
+
+/**
+ * Parses an integer query parameter
+ * @param name - Parameter name, used in error messages
+ * @param value - Raw parameter value
+ * @returns Parsed integer
+ * @throws ValidationError if the value is not a number
+ */
+export function parseIntParam(name: string, value: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed)) {
+    throw new ValidationError(`${name} parameter must be a valid number`, {
+      field: name,
+      value,
+    });
+  }
+  return parsed;
+}
+
+/**
+ * Parses the year policy from yearsBack, or fromYear/toYear/yearWeights
+ * @param params - Query string parameters
+ * @returns Year policy, or undefined to use the default
+ * @throws ValidationError if the parameters are malformed
+ */
+export function parseYearPolicy(
+  params: Record<string, string | undefined>
+): YearPolicy | undefined {
+  const { yearsBack, fromYear, toYear, yearWeights } = params;
+
+  if (fromYear || toYear) {
+    if (!fromYear || !toYear) {
+      throw new ValidationError('fromYear and toYear must be given together', {
+        field: fromYear ? 'toYear' : 'fromYear',
+      });
+    }
+
+    // yearWeights looks like "2024:2,2023:1"
+    const weights: Record<number, number> = {};
+    for (const entry of (yearWeights ?? '').split(',').filter(Boolean)) {
+      const [weightYear, weight] = entry.split(':');
+      const parsedWeight = Number(weight);
+      if (!weightYear || weight === undefined || isNaN(parsedWeight)) {
+        throw new ValidationError('yearWeights must look like "2024:2,2023:1"', {
+          field: 'yearWeights',
+          value: yearWeights,
+        });
+      }
+      weights[parseIntParam('yearWeights', weightYear)] = parsedWeight;
+    }
+
+    return {
+      mode: 'merge',
+      fromYear: parseIntParam('fromYear', fromYear),
+      toYear: parseIntParam('toYear', toYear),
+      yearWeights: weights,
+    };
+  }
+
+  if (yearsBack) {
+    return { mode: 'fallback', maxYearsBack: parseIntParam('yearsBack', yearsBack) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Extracts the Spotify access token from a request's Authorization header
+ *
+ * Browsers authenticate with the session cookie instead; this is for API
+ * clients holding a token of their own.
+ *
+ * @param event - Request headers
+ * @returns The access token
+ * @throws ValidationError if no token is present
+ */
+export function extractAccessToken(event: { headers: QueryParams }): string {
+  // Check Authorization header (Bearer token)
+  const authHeader = event.headers?.authorization || event.headers?.Authorization;
+  const match = authHeader?.match(/^Bearer\s+(.+)$/i);
+
+  if (!match) {
+    throw new ValidationError(
+      'Access token is required (log in, or provide one via the Authorization header)',
+      { field: 'authorization' }
+    );
+  }
+
+  return match[1];
+}
+
+/**
+ * Reads the music provider parameter
+ * @param value - Raw provider parameter
+ * @returns Trimmed provider name, or undefined for the default; validated by getMusicProvider
+ */
+export function parseProvider(value: string | undefined): MusicProviderName | undefined {
+  return (value?.trim() || undefined) as MusicProviderName | undefined;
+}
+
+/**
+ * Parses the playlist parameters shared by the create and preview endpoints
+ * @param params - Query string parameters
+ * @param accessToken - Access token of the music provider
+ * @returns Request for one concert's setlist or for an artist's average setlist
+ * @throws ValidationError if parameters are missing or malformed
+ */
+export function parsePlaylistQuery(params: QueryParams, accessToken: string): PlaylistQuery {
+  const artistId = params.artistId;
+  const setlistParam = params.setlist;
+  const yearParam = params.year;
+  const maxPagesParam = params.maxPages;
+  const markEncoreParam = params.markEncore;
+  const keepTapesParam = params.keepTapes;
+  const partialSongsParam = params.partialSongs;
+
+  // Validate required parameters: an artist for the average, or one concert's setlist
+  if (!artistId && !setlistParam) {
+    throw new ValidationError('artistId or setlist query parameter is required', {
+      field: 'artistId',
+    });
+  }
+
+  // Parse optional year parameter
+  let year: number | undefined;
+  if (yearParam) {
+    year = parseInt(yearParam, 10);
+    if (isNaN(year)) {
+      throw new ValidationError('year parameter must be a valid number', {
+        field: 'year',
+        value: yearParam,
+      });
+    }
+  }
+
+  // Parse optional cap on the number of songs
+  const maxSongs = params.maxSongs ? parseIntParam('maxSongs', params.maxSongs) : undefined;
+
+  // Parse optional page cap for setlist.fm pagination
+  let maxPages: number | undefined;
+  if (maxPagesParam) {
+    maxPages = parseInt(maxPagesParam, 10);
+    if (isNaN(maxPages) || maxPages < 1 || maxPages > DEFAULT_MAX_PAGES) {
+      throw new ValidationError(`maxPages parameter must be a number from 1 to ${DEFAULT_MAX_PAGES}`, {
+        field: 'maxPages',
+        value: maxPagesParam,
+      });
+    }
+  }
+
+  // Encore marking is on unless explicitly disabled
+  const markEncore = markEncoreParam !== 'false';
+
+  // Parse song cleaning options
+  if (partialSongsParam && partialSongsParam !== 'keep' && partialSongsParam !== 'drop') {
+    throw new ValidationError('partialSongs parameter must be "keep" or "drop"', {
+      field: 'partialSongs',
+      value: partialSongsParam,
+    });
+  }
+  const cleaning = {
+    keepTapes: keepTapesParam === 'true',
+    partialSongs: partialSongsParam as PartialSongPolicy | undefined,
+  };
+
+  // Collect optional show filters (date range, tour, country, city, venue)
+  const filters: SetlistFilters = {};
+  for (const field of [
+    'dateFrom',
+    'dateTo',
+    'tourName',
+    'countryCode',
+    'cityName',
+    'venueName',
+  ] as const) {
+    const value = params[field]?.trim();
+    if (value) {
+      filters[field] = value;
+    }
+  }
+
+  // Parse the minimum match confidence and the market tracks must be playable in
+  const minConfidenceParam = params.minConfidence;
+  const market = params.market?.trim();
+  const matching: TrackMatchOptions = {
+    ...(minConfidenceParam ? { minConfidence: Number(minConfidenceParam) } : {}),
+    ...(market ? { market } : {}),
+  };
+
+  // Preferred recording version, validated by the orchestrator
+  const versionPreference = params.versionPreference as
+    | VersionPreference
+    | undefined;
+
+  // Provider artist to match against, e.g. picked from ambiguous candidates
+  const providerArtistId = params.providerArtistId?.trim() || undefined;
+
+  // Music provider to match on and create the playlist in, validated by the orchestrator
+  const provider = parseProvider(params.provider);
+
+  // Parse how many years to walk back, or which years to merge
+  const yearPolicy = parseYearPolicy(params);
+
+  // Sync mode updates an earlier playlist, given by ID or found by name
+  const playlistId = params.playlistId?.trim() || undefined;
+  const sync =
+    params.sync === 'true' || playlistId ? { ...(playlistId ? { playlistId } : {}) } : undefined;
+
+  // Playlist name template and visibility, validated by the orchestrator
+  const nameTemplate = params.nameTemplate?.trim() || undefined;
+  const visibility = (params.visibility?.trim() || undefined) as PlaylistVisibility | undefined;
+
+  if (setlistParam) {
+    // Single-concert mode: reproduce one setlist exactly
+    return {
+      mode: 'setlist',
+      request: {
+        setlist: setlistParam,
+        markEncore,
+        cleaning,
+        matching,
+        versionPreference,
+        providerArtistId,
+        sync,
+        nameTemplate,
+        visibility,
+        provider,
+        accessToken,
+      },
+    };
+  }
+
+  return {
+    mode: 'average',
+    request: {
+      artistId: artistId as string,
+      year,
+      maxPages,
+      maxSongs,
+      markEncore,
+      cleaning,
+      filters,
+      yearPolicy,
+      matching,
+      versionPreference,
+      providerArtistId,
+      sync,
+      nameTemplate,
+      visibility,
+      provider,
+      accessToken,
+    },
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Encrypted session cookie holding the user's Spotify tokens
+ *
+ * Tokens never reach the page's JavaScript or the URL: they are sealed with
+ * AES-256-GCM under SESSION_SECRET and sent back and forth in an httpOnly
+ * cookie, which also lets expired access tokens be refreshed server-side.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { EnvironmentConfig } from './env-validator.js';
+import { ensureFreshSession, SpotifyAuthConfig, SpotifySession } from './oauth.js';
+import { extractAccessToken } from './request-parser.js';
+import { AuthenticationError } from './error-handler.js';
+import { getMusicProvider } from './music-provider.js';
+
+export const SESSION_COOKIE_NAME = 'session';
+
+/** Refresh tokens stay valid until revoked, so sessions are kept for 30 days */
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+export interface AuthenticatedRequest {
+  accessToken: string;
+  /** Set-Cookie header to send back when the session was refreshed */
+  setCookie?: string;
+}
+
+/**
+ * Derives the 256-bit encryption key from the session secret
+ */
+function deriveKey(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypts a session into a cookie value
+ * @param session - Session to encrypt
+ * @param secret - Session secret
+ * @returns Base64url encoded IV, authentication tag and ciphertext
+ */
+export function sealSession(session: SpotifySession, secret: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(secret), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(session), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+/**
+ * Decrypts a session cookie value
+ * @param value - Cookie value produced by sealSession
+ * @param secret - Session secret
+ * @returns The session, or null if the value was tampered with, sealed under another secret
+ *   or malformed
+ */
+export function unsealSession(value: string, secret: string): SpotifySession | null {
+  try {
+    const data = Buffer.from(value, 'base64url');
+    const iv = data.subarray(0, IV_LENGTH);
+    const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+    const ciphertext = data.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+
+    const decipher = createDecipheriv('aes-256-gcm', deriveKey(secret), iv);
+    decipher.setAuthTag(authTag);
+    const session = JSON.parse(
+      Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+    );
+
+    if (typeof session?.accessToken !== 'string' || typeof session.expiresAt !== 'number') {
+      return null;
+    }
+    return session as SpotifySession;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parses a Cookie header
+ * @param header - Raw Cookie header
+ * @returns Cookie values by name
+ */
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const pair of (header ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      cookies[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Builds the Set-Cookie header storing a session
+ * @param session - Session to store
+ * @param secret - Session secret
+ * @returns Set-Cookie header value
+ */
+export function sessionCookie(session: SpotifySession, secret: string): string {
+  return `${SESSION_COOKIE_NAME}=${sealSession(session, secret)}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${SESSION_MAX_AGE_SECONDS}`;
+}
+
+/**
+ * Builds the Set-Cookie header removing the session
+ * @returns Set-Cookie header value
+ */
+export function clearSessionCookie(): string {
+  return `${SESSION_COOKIE_NAME}=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0`;
+}
+
+/**
+ * Attaches a refreshed session's cookie to a handler response. Handlers call
+ * it for error responses too, so a refreshed session is stored even if the
+ * request then fails.
+ * @param response - Response to send
+ * @param setCookie - Set-Cookie header from authenticateRequest, if any
+ * @returns The response, with the Set-Cookie header when given
+ */
+export function withSessionCookie<T extends { headers?: Record<string, string | number | boolean> }>(
+  response: T,
+  setCookie: string | undefined
+): T {
+  return setCookie
+    ? { ...response, headers: { ...response.headers, 'Set-Cookie': setCookie } }
+    : response;
+}
+
+/**
+ * Reads the session from a request's cookies
+ * @param headers - Request headers
+ * @param secret - Session secret
+ * @returns The session, or null if there is none or it cannot be decrypted
+ */
+export function readSession(
+  headers: Record<string, string | undefined>,
+  secret: string
+): SpotifySession | null {
+  const value = parseCookies(headers?.cookie ?? headers?.Cookie)[SESSION_COOKIE_NAME];
+  return value ? unsealSession(value, secret) : null;
+}
+
+/**
+ * Builds the OAuth configuration for token requests from the environment
+ * @param env - Validated environment configuration
+ * @returns Spotify authentication configuration
+ */
+export function authConfigFromEnvironment(env: EnvironmentConfig): SpotifyAuthConfig {
+  return {
+    clientId: env.SPOTIFY_CLIENT_ID,
+    clientSecret: env.SPOTIFY_CLIENT_SECRET,
+    redirectUri: env.SPOTIFY_REDIRECT_URI,
+    scopes: [], // Not needed for token requests
+  };
+}
+
+/** Methods that only read data, which cross-site requests may use */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Rejects requests another site made the browser send. Browsers attach the
+ * session cookie to cross-site form posts and navigations, so requests that
+ * change data must come from this site: Sec-Fetch-Site says so where browsers
+ * send it, otherwise Origin must match the Host header. Requests carrying
+ * neither do not come from a browser and cannot ride on its cookie.
+ * @param headers - Request headers
+ * @throws AuthenticationError with code CROSS_SITE_REQUEST for cross-site requests
+ */
+export function verifySameOrigin(headers: Record<string, string | undefined>): void {
+  const fetchSite = headers['sec-fetch-site'] ?? headers['Sec-Fetch-Site'];
+  const origin = headers.origin ?? headers.Origin;
+  const host = headers.host ?? headers.Host;
+
+  let sameOrigin = true;
+  if (fetchSite) {
+    sameOrigin = fetchSite === 'same-origin' || fetchSite === 'none';
+  } else if (origin) {
+    try {
+      sameOrigin = new URL(origin).host === host;
+    } catch {
+      sameOrigin = false;
+    }
+  }
+
+  if (!sameOrigin) {
+    throw new AuthenticationError(
+      'Requests that change data must come from this site',
+      { ...(fetchSite ? { fetchSite } : {}), ...(origin ? { origin } : {}) },
+      'CROSS_SITE_REQUEST'
+    );
+  }
+}
+
+/**
+ * Finds the Spotify access token of a request
+ *
+ * The session cookie is used when present, refreshing its access token when
+ * it has expired or is about to. Without a session, an access token sent in
+ * the Authorization header is accepted, for API clients. Sessions only hold
+ * Spotify tokens, so requests for another music provider must send theirs in
+ * the Authorization header. Session requests that change data must come from
+ * this site (see verifySameOrigin).
+ *
+ * @param event - Request method and headers
+ * @param env - Validated environment configuration
+ * @param provider - Music provider the token is for (defaults to spotify)
+ * @returns The access token, and a Set-Cookie header if the session was refreshed
+ * @throws AuthenticationError if the session expired and cannot be refreshed, or another
+ *   site sent a request that changes data
+ * @throws ValidationError if the provider is unknown, or the request carries neither a
+ *   session nor a token
+ */
+export async function authenticateRequest(
+  event: { headers: Record<string, string | undefined>; httpMethod?: string },
+  env: EnvironmentConfig,
+  provider?: string
+): Promise<AuthenticatedRequest> {
+  if (getMusicProvider(provider).name !== 'spotify') {
+    return { accessToken: extractAccessToken(event) };
+  }
+
+  const session = readSession(event.headers, env.SESSION_SECRET);
+  if (!session) {
+    return { accessToken: extractAccessToken(event) };
+  }
+
+  if (!SAFE_METHODS.includes(event.httpMethod?.toUpperCase() ?? 'GET')) {
+    verifySameOrigin(event.headers);
+  }
+
+  const fresh = await ensureFreshSession(session, authConfigFromEnvironment(env));
+  return {
+    accessToken: fresh.session.accessToken,
+    ...(fresh.refreshed ? { setCookie: sessionCookie(fresh.session, env.SESSION_SECRET) } : {}),
+  };
+}
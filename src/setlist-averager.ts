@@ -0,0 +1,174 @@
+/**
+ * Setlist averager for turning many concert setlists into one typical show
+ */
+
+import { CoverInfo, PlayedSong, SetlistSong } from './setlist-fetcher.js';
+
+interface SongStats {
+  name: string;
+  playCount: number;
+  /** Sum of the weights of the shows the song was played at */
+  weightedCount: number;
+  /** Sum of weighted relative positions */
+  relativePositionSum: number;
+  firstSeen: number;
+  /** Weighted plays per encore number (0 = main set) */
+  encoreVotes: Map<number, number>;
+  /** Set name seen for each encore number */
+  setNames: Map<number, string>;
+  /** Number of plays per setlist.fm note */
+  infoCounts: Map<string, number>;
+  cover?: CoverInfo;
+}
+
+/**
+ * Computes the median length of the given shows
+ * @param showLengths - Number of songs played at each show
+ * @returns Median show length, rounded to the nearest whole song
+ */
+export function typicalShowLength(showLengths: number[]): number {
+  if (showLengths.length === 0) {
+    return 0;
+  }
+
+  const sorted = [...showLengths].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  if (sorted.length % 2 === 1) {
+    return sorted[middle];
+  }
+  return Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+/**
+ * Picks the encore a song is most often played in
+ * @param song - Accumulated statistics for the song
+ * @returns Encore number, 0 for the main set
+ */
+function typicalEncore(song: SongStats): number {
+  let bestEncore = 0;
+  let bestVotes = -1;
+  for (const [encore, votes] of song.encoreVotes) {
+    if (votes > bestVotes || (votes === bestVotes && encore < bestEncore)) {
+      bestEncore = encore;
+      bestVotes = votes;
+    }
+  }
+  return bestEncore;
+}
+
+/**
+ * Picks the note given at more than half of a song's performances
+ * @param song - Accumulated statistics for the song
+ * @returns The note, or undefined if no note is that common
+ */
+function typicalInfo(song: SongStats): string | undefined {
+  for (const [info, count] of song.infoCounts) {
+    if (count * 2 > song.playCount) {
+      return info;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Builds the average setlist from the song lists of individual shows
+ *
+ * Each song's relative position (0 = opener, 1 = closer) is averaged across
+ * the shows it was played at. The songs played at the most shows are kept up
+ * to the typical show length, then emitted in their average concert order
+ * with main set songs first and encore songs after them.
+ *
+ * Shows can be weighted, e.g. to let recent years count more when several
+ * years are merged. Weights affect which songs make the cut and their order;
+ * play counts always report the actual number of shows.
+ *
+ * @param shows - Songs in the order they were played, one array per show
+ * @param showWeights - Optional weight per show, defaults to 1 for every show
+ * @returns Songs in concert order with 1-based positions, play counts and encores
+ */
+export function computeAverageSetlist(
+  shows: PlayedSong[][],
+  showWeights?: number[]
+): SetlistSong[] {
+  const playedShows = shows
+    .map((show, index) => ({ show, weight: showWeights?.[index] ?? 1 }))
+    .filter(({ show, weight }) => show.length > 0 && weight > 0);
+  const stats = new Map<string, SongStats>();
+
+  for (const { show, weight } of playedShows) {
+    const seenInShow = new Set<string>();
+
+    show.forEach(({ name, encore, setName, cover, info }, index) => {
+      // A song repeated within one show counts once, at its first position
+      if (seenInShow.has(name)) {
+        return;
+      }
+      seenInShow.add(name);
+
+      const relativePosition = (index + 0.5) / show.length;
+      const existing = stats.get(name);
+      const song: SongStats = existing ?? {
+        name,
+        playCount: 0,
+        weightedCount: 0,
+        relativePositionSum: 0,
+        firstSeen: stats.size,
+        encoreVotes: new Map(),
+        setNames: new Map(),
+        infoCounts: new Map(),
+      };
+      song.playCount += 1;
+      song.weightedCount += weight;
+      song.relativePositionSum += relativePosition * weight;
+      song.encoreVotes.set(encore, (song.encoreVotes.get(encore) ?? 0) + weight);
+      if (setName && !song.setNames.has(encore)) {
+        song.setNames.set(encore, setName);
+      }
+      song.cover = song.cover ?? cover;
+      if (info) {
+        song.infoCounts.set(info, (song.infoCounts.get(info) ?? 0) + 1);
+      }
+      stats.set(name, song);
+    });
+  }
+
+  const averagePosition = (song: SongStats) =>
+    song.relativePositionSum / song.weightedCount;
+
+  const showLength = typicalShowLength(playedShows.map(({ show }) => show.length));
+
+  // Keep the most frequently played songs, up to the typical show length
+  const keptSongs = Array.from(stats.values())
+    .sort(
+      (a, b) =>
+        b.weightedCount - a.weightedCount ||
+        averagePosition(a) - averagePosition(b) ||
+        a.firstSeen - b.firstSeen
+    )
+    .slice(0, showLength);
+
+  // Emit the kept songs in the order they are typically played, encores last
+  return keptSongs
+    .map((song) => ({ song, encore: typicalEncore(song) }))
+    .sort(
+      (a, b) =>
+        a.encore - b.encore ||
+        averagePosition(a.song) - averagePosition(b.song) ||
+        b.song.weightedCount - a.song.weightedCount ||
+        a.song.firstSeen - b.song.firstSeen
+    )
+    .map(({ song, encore }, index) => {
+      const setName = song.setNames.get(encore);
+      const info = typicalInfo(song);
+      return {
+        name: song.name,
+        position: index + 1,
+        playCount: song.playCount,
+        encore,
+        ...(setName ? { setName } : {}),
+        ...(song.cover ? { cover: song.cover } : {}),
+        ...(info ? { info } : {}),
+      };
+    });
+}
@@ -0,0 +1,268 @@
+/**
+ * Setlist exports as CSV, JSON, M3U/M3U8 and XSPF, for archiving a
+ * generated setlist or importing it into other players
+ */
+
+import { ShowDetails } from './setlist-filter.js';
+import { PlaylistSource } from './playlist-creator.js';
+import { MatchedTrack, MatchStatus } from './track-matcher.js';
+import { MusicProviderName, trackUrl } from './music-provider.js';
+
+export type ExportFormat = 'csv' | 'json' | 'm3u' | 'm3u8' | 'xspf';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'm3u', 'm3u8', 'xspf'];
+
+/**
+ * A setlist song with its track match, when songs were matched
+ */
+export interface ExportSong {
+  /** 1-based position of the song in the setlist */
+  position: number;
+  name: string;
+  /** Number of shows the song was played at */
+  playCount: number;
+  /** 0 for the main set, 1 for the first encore, and so on */
+  encore: number;
+  /** Name of the set as given on setlist.fm, if any */
+  setName?: string;
+  /** Match status, only when songs were matched */
+  status?: MatchStatus;
+  trackUri?: string | null;
+  track?: MatchedTrack;
+  confidence?: number;
+}
+
+export interface SetlistExport {
+  artistName: string;
+  year: number;
+  yearsUsed: number[];
+  showsSampled: number;
+  totalShows: number;
+  /** Date and venue of the concert when the export is of a single setlist */
+  show?: ShowDetails;
+  /** Date range, tour and venue of the shows sampled */
+  source: PlaylistSource;
+  /** Whether the songs were matched to tracks on a music provider */
+  matched: boolean;
+  /** Music provider the songs were matched on */
+  provider?: MusicProviderName;
+  songs: ExportSong[];
+}
+
+export interface RenderedExport {
+  contentType: string;
+  /** Suggested file name, without directories */
+  filename: string;
+  body: string;
+}
+
+const CSV_COLUMNS = [
+  'position',
+  'song',
+  'play_count',
+  'set',
+  'encore',
+  'status',
+  'track_uri',
+  'track_name',
+  'track_artists',
+  'album',
+  'confidence',
+];
+
+/** Every format is written as UTF-8, including plain M3U, which players otherwise read as Latin-1 */
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  m3u: 'audio/x-mpegurl; charset=utf-8',
+  m3u8: 'audio/x-mpegurl; charset=utf-8',
+  xspf: 'application/xspf+xml; charset=utf-8',
+};
+
+/**
+ * Checks whether a value names a supported export format
+ * @param value - Value to check
+ * @returns True for csv, json, m3u, m3u8 and xspf
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+/**
+ * Builds the title of an export, e.g. "Radiohead — Average Setlist 2024",
+ * "Radiohead — Madison Square Garden 2024-06-01", or "Radiohead — 2024-06-01"
+ * when the show has no venue
+ */
+function exportTitle(data: SetlistExport): string {
+  if (data.show) {
+    const { venueName, eventDate } = data.show;
+    return `${data.artistName} — ${venueName ? `${venueName} ${eventDate}` : eventDate}`;
+  }
+  const years =
+    data.yearsUsed.length > 1
+      ? `${data.yearsUsed[0]}–${data.yearsUsed[data.yearsUsed.length - 1]}`
+      : String(data.year);
+  return `${data.artistName} — Average Setlist ${years}`;
+}
+
+/**
+ * Quotes a CSV field when it contains a separator, quote or line break (RFC 4180).
+ * Text starting like a formula gets a leading apostrophe, since song names are
+ * community-edited and spreadsheets would otherwise evaluate them.
+ */
+function csvField(value: string | number | undefined | null): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escapes text for an XML element
+ */
+function xmlText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Replaces line breaks, which would end an M3U directive early
+ */
+function m3uText(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * Describes where a song sits in the show, e.g. "Played at 12 of 20 shows, encore 1"
+ */
+function songAnnotation(song: ExportSong, showsSampled: number): string {
+  const played = `Played at ${song.playCount} of ${showsSampled} show${showsSampled === 1 ? '' : 's'}`;
+  return song.encore > 0 ? `${played}, encore ${song.encore}` : played;
+}
+
+/**
+ * Lists one song per row under a header row, with CRLF line endings (RFC 4180)
+ */
+function renderCsv(data: SetlistExport): string {
+  const rows = data.songs.map((song) =>
+    [
+      song.position,
+      song.name,
+      song.playCount,
+      song.setName,
+      song.encore,
+      song.status,
+      song.trackUri,
+      song.track?.name,
+      song.track?.artists.join('; '),
+      song.track?.album,
+      song.confidence,
+    ]
+      .map(csvField)
+      .join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Lists matched songs as track URLs; songs without a track are kept as
+ * comments so the export still shows the whole setlist
+ */
+function renderM3u(data: SetlistExport): string {
+  const lines = ['#EXTM3U', `#PLAYLIST:${m3uText(exportTitle(data))}`];
+  for (const song of data.songs) {
+    const artists = song.track?.artists.join(', ') ?? data.artistName;
+    const title = song.track?.name ?? song.name;
+    if (song.trackUri) {
+      lines.push(`#EXTINF:-1,${m3uText(`${artists} - ${title}`)}`, trackUrl(song.trackUri));
+    } else {
+      lines.push(`# ${m3uText(`${data.artistName} - ${song.name}`)}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Lists every song as an XSPF track; matched songs carry their track
+ * location and URI, which XSPF allows players to resolve or ignore
+ */
+function renderXspf(data: SetlistExport): string {
+  const tracks = data.songs.map((song) => {
+    const elements = [
+      ...(song.trackUri
+        ? [
+            `<location>${xmlText(trackUrl(song.trackUri))}</location>`,
+            `<identifier>${xmlText(song.trackUri)}</identifier>`,
+          ]
+        : []),
+      `<title>${xmlText(song.track?.name ?? song.name)}</title>`,
+      `<creator>${xmlText(song.track?.artists.join(', ') ?? data.artistName)}</creator>`,
+      ...(song.track?.album ? [`<album>${xmlText(song.track.album)}</album>`] : []),
+      `<annotation>${xmlText(songAnnotation(song, data.showsSampled))}</annotation>`,
+      `<trackNum>${song.position}</trackNum>`,
+    ];
+    return `    <track>\n${elements.map((element) => `      ${element}`).join('\n')}\n    </track>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${xmlText(exportTitle(data))}</title>`,
+    `  <creator>${xmlText(data.artistName)}</creator>`,
+    '  <annotation>Setlist data from setlist.fm</annotation>',
+    '  <trackList>',
+    ...tracks,
+    '  </trackList>',
+    '</playlist>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Builds a file name from the export title, keeping it safe for a
+ * Content-Disposition header
+ */
+function exportFilename(data: SetlistExport, format: ExportFormat): string {
+  const base = exportTitle(data)
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_-]+/g, '-')
+    .toLowerCase();
+  return `${base || 'setlist'}.${format}`;
+}
+
+/**
+ * Renders a setlist export in the requested format
+ * @param data - Setlist songs, with their matches when songs were matched
+ * @param format - Export format
+ * @returns Content type, suggested file name and file contents
+ */
+export function renderExport(data: SetlistExport, format: ExportFormat): RenderedExport {
+  let body: string;
+  switch (format) {
+    case 'csv':
+      body = renderCsv(data);
+      break;
+    case 'json':
+      body = JSON.stringify(data, null, 2);
+      break;
+    case 'xspf':
+      body = renderXspf(data);
+      break;
+    default:
+      // M3U and M3U8 differ only in the declared encoding
+      body = renderM3u(data);
+  }
+
+  return {
+    contentType: CONTENT_TYPES[format],
+    filename: exportFilename(data, format),
+    body,
+  };
+}
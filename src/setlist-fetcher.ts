@@ -4,69 +4,221 @@
 
 import axios from 'axios';
 import { ExternalAPIError, DataNotFoundError, logError } from './error-handler.js';
+import { DEFAULT_TTL_SECONDS, getSetlistFm, ttlForYear } from './setlistfm-client.js';
+import { computeAverageSetlist } from './setlist-averager.js';
+import { cleanShowSongs, SongCleaningOptions } from './song-cleaner.js';
+import {
+  matchesFilters,
+  SetlistFilters,
+  ShowDetails,
+  ShowSummary,
+  summarizeShows,
+  toIsoDate,
+} from './setlist-filter.js';
 
 export interface SetlistSong {
   name: string;
+  /** 1-based position of the song in the typical show */
   position: number;
+  /** Number of sampled shows the song was played at */
+  playCount: number;
+  /** Encore the song belongs to: 0 for the main set, 1 for the first encore, ... */
+  encore: number;
+  /** Name of the set as given on setlist.fm, if any */
+  setName?: string;
+  /** Original artist when the song is a cover */
+  cover?: CoverInfo;
+  /** setlist.fm note (e.g. "acoustic") given at most of the song's performances */
+  info?: string;
 }
 
+export interface CoverInfo {
+  artistName: string;
+  mbid: string;
+}
+
+export interface PlayedSong {
+  name: string;
+  encore: number;
+  setName?: string;
+  cover?: CoverInfo;
+  /** True for tape intros and other recorded music played at the show */
+  tape?: boolean;
+  /** Free-text note from setlist.fm, e.g. "acoustic" or "snippet" */
+  info?: string;
+}
+
+/**
+ * Which years go into the average setlist
+ * - fallback: use the target year, walking back up to `maxYearsBack` years until data is found
+ * - merge: average every show from `fromYear` to `toYear`, optionally weighting years
+ */
+export type YearPolicy =
+  | {
+      mode: 'fallback';
+      maxYearsBack: number;
+    }
+  | {
+      mode: 'merge';
+      fromYear: number;
+      toYear: number;
+      /** Weight per year, defaults to 1 for years not listed */
+      yearWeights?: Record<number, number>;
+    };
+
 export interface AverageSetlistParams {
   artistId: string;
   year?: number;
+  maxPages?: number;
+  cleaning?: SongCleaningOptions;
+  filters?: SetlistFilters;
+  yearPolicy?: YearPolicy;
 }
 
-interface SetlistFmResponse {
-  setlist: Array<{
-    sets: {
-      set: Array<{
-        song: Array<{
+export interface SingleSetlistResult {
+  setlistId: string;
+  artistId: string;
+  artistName: string;
+  songs: SetlistSong[];
+  show: ShowDetails;
+}
+
+export interface AverageSetlistResult extends ShowSummary {
+  songs: SetlistSong[];
+  /** Most recent year the setlist data came from */
+  year: number;
+  /** Every year that contributed shows, oldest first */
+  yearsUsed: number[];
+  showsSampled: number;
+  totalShows: number;
+}
+
+interface SetlistFmSetlist {
+  id: string;
+  eventDate: string;
+  artist?: {
+    mbid: string;
+    name: string;
+  };
+  tour?: {
+    name: string;
+  };
+  venue?: {
+    name: string;
+    city?: {
+      name: string;
+      country?: {
+        code: string;
+        name: string;
+      };
+    };
+  };
+  sets: {
+    set: Array<{
+      name?: string;
+      encore?: number;
+      song: Array<{
+        name: string;
+        tape?: boolean;
+        info?: string;
+        cover?: {
+          mbid: string;
           name: string;
-        }>;
+        };
       }>;
+    }>;
+  };
+}
+
+interface SetlistFmResponse {
+  type?: string;
+  itemsPerPage: number;
+  page: number;
+  total: number;
+  setlist: SetlistFmSetlist[];
+}
+
+interface YearSetlists {
+  setlists: SetlistFmSetlist[];
+  totalShows: number;
+}
+
+interface YearShows {
+  shows: PlayedSong[][];
+  /** Date, tour and venue of each show, in the same order */
+  details: ShowDetails[];
+  totalShows: number;
+}
+
+/**
+ * Default cap on the number of result pages fetched per year.
+ * setlist.fm returns 20 setlists per page, so this covers 200 shows.
+ */
+export const DEFAULT_MAX_PAGES = 10;
+
+/**
+ * Default year policy: retry once with the previous year (Requirement 2.4)
+ */
+export const DEFAULT_YEAR_POLICY: YearPolicy = { mode: 'fallback', maxYearsBack: 1 };
+
+const SETLIST_ID = /^[0-9a-f]{6,10}$/i;
+const SETLIST_URL =
+  /^https?:\/\/(?:[a-z]+\.)?setlist\.fm\/setlist\/.+-([0-9a-f]{6,10})\.html(?:[?#].*)?$/i;
+
+/**
+ * Picks the years to fetch for a show date range when no year or year policy
+ * is given, so the range selects shows outside the default years too
+ * - dateFrom and dateTo: merge every year the range touches
+ * - dateFrom only: merge from its year up to the current year
+ * - dateTo only: start from its year, with the default fallback
+ * @param filters - Show filters, possibly with a date range
+ * @param currentYear - Year that open-ended ranges run up to
+ * @returns Year and year policy to use, empty when there is no date range
+ */
+export function yearsForDateRange(
+  filters: SetlistFilters | undefined,
+  currentYear: number = new Date().getFullYear()
+): Pick<AverageSetlistParams, 'year' | 'yearPolicy'> {
+  const fromYear = filters?.dateFrom ? parseInt(filters.dateFrom.slice(0, 4), 10) : undefined;
+  const toYear = filters?.dateTo ? parseInt(filters.dateTo.slice(0, 4), 10) : undefined;
+
+  if (fromYear !== undefined) {
+    return {
+      yearPolicy: {
+        mode: 'merge',
+        fromYear,
+        toYear: toYear ?? Math.max(fromYear, currentYear),
+      },
     };
-  }>;
+  }
+  return toYear !== undefined ? { year: toYear } : {};
 }
 
 /**
  * Fetches average setlist data from setlist.fm API
- * @param params - Parameters including artist ID and optional year
+ * @param params - Parameters including artist ID, optional year, page cap, show filters and year
+ *   policy; without a year or policy, a date range in the filters decides the years fetched
  * @param apiKey - setlist.fm API key
- * @returns Array of songs with names and positions
+ * @returns Songs with names and positions, plus the years used and number of shows sampled
  * @throws ExternalAPIError if API is unavailable
- * @throws DataNotFoundError if no setlist data found after retry
+ * @throws DataNotFoundError if no setlist data found in any of the years tried
  */
 export async function getAverageSetlist(
   params: AverageSetlistParams,
   apiKey: string
-): Promise<SetlistSong[]> {
-  const { artistId, year } = params;
+): Promise<AverageSetlistResult> {
+  const { artistId } = params;
+  const { year, yearPolicy = DEFAULT_YEAR_POLICY } =
+    params.year === undefined && !params.yearPolicy ? yearsForDateRange(params.filters) : params;
   
   // Use current year if not provided (Requirement 2.2)
   const targetYear = year ?? new Date().getFullYear();
   
   try {
-    // Try to fetch setlist for the target year
-    const songs = await fetchSetlistForYear(artistId, targetYear, apiKey);
-    
-    // If no songs found, retry with previous year (Requirement 2.4)
-    if (songs.length === 0) {
-      const retryYear = targetYear - 1;
-      const retrySongs = await fetchSetlistForYear(artistId, retryYear, apiKey);
-      
-      // If still no songs found after retry, throw DataNotFoundError (Requirement 5.3)
-      if (retrySongs.length === 0) {
-        const error = new DataNotFoundError(
-          `No setlist data found for artist ${artistId} in years ${targetYear} or ${retryYear}`,
-          { artistId, targetYear, retryYear }
-        );
-        logError(error, { artistId, targetYear, retryYear });
-        throw error;
-      }
-      
-      return retrySongs;
+    if (yearPolicy.mode === 'merge') {
+      return await mergeYears(params, yearPolicy, apiKey);
     }
-    
-    return songs;
+    return await fallBackThroughYears(params, targetYear, yearPolicy.maxYearsBack, apiKey);
   } catch (error) {
     if (error instanceof ExternalAPIError || error instanceof DataNotFoundError) {
       throw error;
@@ -98,66 +250,354 @@ export async function getAverageSetlist(
 }
 
 /**
- * Fetches setlist data for a specific year
- * @param artistId - Artist ID from setlist.fm
- * @param year - Year to fetch setlist for
+ * Extracts the setlist ID from a setlist.fm setlist ID or URL
+ * @param setlistIdOrUrl - Setlist ID (e.g. "63de4613") or setlist.fm URL ending in "-63de4613.html"
+ * @returns The setlist ID, or null if none can be found
+ */
+export function parseSetlistId(setlistIdOrUrl: string): string | null {
+  const input = setlistIdOrUrl.trim();
+
+  if (SETLIST_ID.test(input)) {
+    return input;
+  }
+
+  const urlMatch = input.match(SETLIST_URL);
+  return urlMatch ? urlMatch[1] : null;
+}
+
+/**
+ * Fetches a single concert's setlist from setlist.fm, keeping its exact order
+ * @param setlistId - setlist.fm setlist ID
  * @param apiKey - setlist.fm API key
- * @returns Array of songs with names and positions
- * @throws ExternalAPIError if API request fails
+ * @param cleaning - Options for dropping tapes, splitting medleys and partial songs
+ * @returns Songs in the order they were played, with the artist and show details
+ * @throws ExternalAPIError if API is unavailable
+ * @throws DataNotFoundError if the setlist does not exist or has no songs
  */
-async function fetchSetlistForYear(
-  artistId: string,
-  year: number,
-  apiKey: string
-): Promise<SetlistSong[]> {
+export async function getSetlist(
+  setlistId: string,
+  apiKey: string,
+  cleaning: SongCleaningOptions = {}
+): Promise<SingleSetlistResult> {
+  let setlist: SetlistFmSetlist | null;
   try {
-    const url = `https://api.setlist.fm/rest/1.0/artist/${artistId}/setlists`;
+    setlist = await getSetlistFm<SetlistFmSetlist>(
+      `/setlist/${setlistId}`,
+      {},
+      apiKey,
+      DEFAULT_TTL_SECONDS
+    );
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const apiError = new ExternalAPIError(
+        `setlist.fm API request failed: ${error.message}`,
+        'setlist.fm',
+        { statusCode: error.response?.status, setlistId }
+      );
+      logError(apiError, { setlistId });
+      throw apiError;
+    }
+    throw error;
+  }
+  
+  if (!setlist) {
+    const notFoundError = new DataNotFoundError(
+      `No setlist found with ID ${setlistId}`,
+      { setlistId }
+    );
+    logError(notFoundError, { setlistId });
+    throw notFoundError;
+  }
+  
+  const playedSongs = cleanShowSongs(extractPlayedSongs(setlist), cleaning);
+  if (playedSongs.length === 0) {
+    const error = new DataNotFoundError(
+      `Setlist ${setlistId} has no songs`,
+      { setlistId }
+    );
+    logError(error, { setlistId });
+    throw error;
+  }
+  
+  // Keep the exact concert order, including encores
+  const songs: SetlistSong[] = playedSongs.map((song, index) => ({
+    name: song.name,
+    position: index + 1,
+    playCount: 1,
+    encore: song.encore,
+    ...(song.setName ? { setName: song.setName } : {}),
+    ...(song.cover ? { cover: song.cover } : {}),
+    ...(song.info ? { info: song.info } : {}),
+  }));
+  
+  return {
+    setlistId,
+    artistId: setlist.artist?.mbid ?? '',
+    artistName: setlist.artist?.name ?? '',
+    songs,
+    show: extractShowDetails(setlist),
+  };
+}
+
+/**
+ * Uses the most recent year with setlist data, walking back from the target year
+ * @param params - Artist ID, page cap, song cleaning options and show filters
+ * @param targetYear - Year to try first
+ * @param maxYearsBack - How many earlier years to try if the target year has no data
+ * @param apiKey - setlist.fm API key
+ * @returns Average setlist for the first year with data
+ * @throws DataNotFoundError if none of the years has setlist data
+ */
+async function fallBackThroughYears(
+  params: AverageSetlistParams,
+  targetYear: number,
+  maxYearsBack: number,
+  apiKey: string
+): Promise<AverageSetlistResult> {
+  const yearsTried: number[] = [];
+  
+  for (let year = targetYear; year >= targetYear - maxYearsBack; year--) {
+    yearsTried.push(year);
+    const yearShows = await fetchShowsForYear(params, year, apiKey);
+    const songs = computeAverageSetlist(yearShows.shows);
     
-    const response = await axios.get<SetlistFmResponse>(url, {
-      params: { year },
-      headers: {
-        'x-api-key': apiKey,
-        'Accept': 'application/json',
-      },
-    });
+    if (songs.length > 0) {
+      return {
+        songs,
+        year,
+        yearsUsed: [year],
+        showsSampled: yearShows.shows.length,
+        totalShows: yearShows.totalShows,
+        ...summarizeShows(yearShows.details),
+      };
+    }
+  }
+  
+  throw noDataError(params, yearsTried);
+}
+
+/**
+ * Averages every show across a span of years into one setlist
+ * @param params - Artist ID, page cap, song cleaning options and show filters
+ * @param policy - Year span and optional per-year weights
+ * @param apiKey - setlist.fm API key
+ * @returns Average setlist across all years that had shows
+ * @throws DataNotFoundError if none of the years has setlist data
+ */
+async function mergeYears(
+  params: AverageSetlistParams,
+  policy: Extract<YearPolicy, { mode: 'merge' }>,
+  apiKey: string
+): Promise<AverageSetlistResult> {
+  const { fromYear, toYear, yearWeights = {} } = policy;
+  const shows: PlayedSong[][] = [];
+  const details: ShowDetails[] = [];
+  const showWeights: number[] = [];
+  const yearsUsed: number[] = [];
+  const yearsTried: number[] = [];
+  let totalShows = 0;
+  
+  for (let year = fromYear; year <= toYear; year++) {
+    yearsTried.push(year);
+    const yearShows = await fetchShowsForYear(params, year, apiKey);
+    if (yearShows.shows.length === 0) {
+      continue;
+    }
     
-    // Parse response to extract song names and positions (Requirement 2.3)
-    const songs: SetlistSong[] = [];
-    const songFrequency = new Map<string, number>();
+    const weight = yearWeights[year] ?? 1;
+    yearsUsed.push(year);
+    shows.push(...yearShows.shows);
+    details.push(...yearShows.details);
+    showWeights.push(...yearShows.shows.map(() => weight));
+    totalShows += yearShows.totalShows;
+  }
+  
+  const songs = computeAverageSetlist(shows, showWeights);
+  if (songs.length === 0) {
+    throw noDataError(params, yearsTried);
+  }
+  
+  return {
+    songs,
+    year: yearsUsed[yearsUsed.length - 1],
+    yearsUsed,
+    showsSampled: shows.length,
+    totalShows,
+    ...summarizeShows(details),
+  };
+}
+
+/**
+ * Builds and logs the error for when no year has setlist data
+ * @param params - Artist ID and show filters
+ * @param yearsTried - Years that were searched
+ * @returns DataNotFoundError to throw (Requirement 5.3)
+ */
+function noDataError(params: AverageSetlistParams, yearsTried: number[]): DataNotFoundError {
+  const { artistId, filters } = params;
+  const error = new DataNotFoundError(
+    `No setlist data found for artist ${artistId} in years ${yearsTried.join(', ')}`,
+    {
+      artistId,
+      yearsTried,
+      ...(filters ? { filters } : {}),
+    }
+  );
+  logError(error, { artistId, yearsTried });
+  return error;
+}
+
+/**
+ * Fetches the shows for a specific year, filtered and cleaned
+ * @param params - Artist ID, page cap, song cleaning options and show filters
+ * @param year - Year to fetch shows for
+ * @param apiKey - setlist.fm API key
+ * @returns Songs of each matching show in the order they were played
+ * @throws ExternalAPIError if API request fails
+ */
+async function fetchShowsForYear(
+  params: AverageSetlistParams,
+  year: number,
+  apiKey: string
+): Promise<YearShows> {
+  const { artistId, maxPages = DEFAULT_MAX_PAGES, cleaning = {}, filters = {} } = params;
+  
+  const { setlists: fetchedSetlists, totalShows } = await fetchAllSetlistPages(
+    artistId,
+    year,
+    apiKey,
+    maxPages
+  );
+  
+  const shows: PlayedSong[][] = [];
+  const details: ShowDetails[] = [];
+  for (const setlist of fetchedSetlists) {
+    // Keep only the shows matching the date, tour and venue filters
+    const showDetails = extractShowDetails(setlist);
+    if (!matchesFilters(showDetails, filters)) {
+      continue;
+    }
     
-    // Count song frequencies across all setlists
-    if (response.data.setlist) {
-      for (const setlist of response.data.setlist) {
-        if (setlist.sets?.set) {
-          for (const set of setlist.sets.set) {
-            if (set.song) {
-              for (const song of set.song) {
-                const count = songFrequency.get(song.name) || 0;
-                songFrequency.set(song.name, count + 1);
-              }
-            }
-          }
-        }
-      }
+    // Parse setlists to extract songs in the order they were played (Requirement 2.3)
+    // and clean out tapes, medleys and partial performances before counting them
+    const songs = cleanShowSongs(extractPlayedSongs(setlist), cleaning);
+    if (songs.length > 0) {
+      shows.push(songs);
+      details.push(showDetails);
+    }
+  }
+  
+  return { shows, details, totalShows };
+}
+
+/**
+ * Extracts the date, tour and venue details of a setlist
+ * @param setlist - Setlist as returned by setlist.fm
+ * @returns Show details used for filtering and naming playlists
+ */
+function extractShowDetails(setlist: SetlistFmSetlist): ShowDetails {
+  return {
+    eventDate: toIsoDate(setlist.eventDate ?? ''),
+    tourName: setlist.tour?.name,
+    venueName: setlist.venue?.name,
+    cityName: setlist.venue?.city?.name,
+    countryCode: setlist.venue?.city?.country?.code,
+  };
+}
+
+/**
+ * Flattens a setlist's sets into songs, keeping which set or encore each belongs to
+ * @param setlist - Setlist as returned by setlist.fm
+ * @returns Songs in the order they were played
+ */
+function extractPlayedSongs(setlist: SetlistFmSetlist): PlayedSong[] {
+  const playedSongs: PlayedSong[] = [];
+  for (const set of setlist.sets?.set || []) {
+    for (const song of set.song || []) {
+      playedSongs.push({
+        name: song.name,
+        encore: set.encore ?? 0,
+        ...(set.name ? { setName: set.name } : {}),
+        ...(song.tape ? { tape: true } : {}),
+        ...(song.info ? { info: song.info } : {}),
+        ...(song.cover
+          ? { cover: { artistName: song.cover.name, mbid: song.cover.mbid } }
+          : {}),
+      });
+    }
+  }
+  return playedSongs;
+}
+
+/**
+ * Walks through the paginated setlist.fm results for a year
+ * @param artistId - Artist ID from setlist.fm
+ * @param year - Year to fetch setlists for
+ * @param apiKey - setlist.fm API key
+ * @param maxPages - Maximum number of result pages to fetch
+ * @returns All fetched setlists and the total number of shows setlist.fm reports
+ * @throws ExternalAPIError if API request fails
+ */
+async function fetchAllSetlistPages(
+  artistId: string,
+  year: number,
+  apiKey: string,
+  maxPages: number
+): Promise<YearSetlists> {
+  const setlists: SetlistFmSetlist[] = [];
+  let totalShows = 0;
+  let totalPages = 1;
+  
+  for (let page = 1; page <= Math.min(totalPages, maxPages); page++) {
+    const response = await fetchSetlistPage(artistId, year, page, apiKey);
+    if (!response) {
+      break;
     }
     
-    // Sort songs by frequency (most common first) and assign positions
-    const sortedSongs = Array.from(songFrequency.entries())
-      .sort((a, b) => b[1] - a[1])
-      .map(([name], index) => ({
-        name,
-        position: index + 1,
-      }));
+    setlists.push(...(response.setlist || []));
+    totalShows = response.total ?? setlists.length;
     
-    return sortedSongs;
+    // Work out how many pages exist from the first response
+    if (response.itemsPerPage > 0) {
+      totalPages = Math.ceil(totalShows / response.itemsPerPage);
+    }
+  }
+  
+  return { setlists, totalShows };
+}
+
+/**
+ * Fetches a single page of setlists for a year
+ * @param artistId - Artist ID from setlist.fm
+ * @param year - Year to fetch setlists for
+ * @param page - 1-based page number
+ * @param apiKey - setlist.fm API key
+ * @returns Page of setlists, or null if setlist.fm has no setlists for the page
+ * @throws ExternalAPIError if API request fails
+ */
+async function fetchSetlistPage(
+  artistId: string,
+  year: number,
+  page: number,
+  apiKey: string
+): Promise<SetlistFmResponse | null> {
+  try {
+    // setlist.fm answers 404, returned as null, when there are no setlists for the query.
+    // Past years are cached for much longer than the current one
+    return await getSetlistFm<SetlistFmResponse>(
+      `/artist/${artistId}/setlists`,
+      { year, p: page },
+      apiKey,
+      ttlForYear(year)
+    );
   } catch (error) {
     if (axios.isAxiosError(error)) {
       const apiError = new ExternalAPIError(
         `setlist.fm API request failed: ${error.message}`,
         'setlist.fm',
-        { statusCode: error.response?.status, year }
+        { statusCode: error.response?.status, year, page }
       );
-      logError(apiError, { artistId, year });
+      logError(apiError, { artistId, year, page });
       throw apiError;
     }
     throw error;
@@ -0,0 +1,126 @@
+/**
+ * Setlist filter for narrowing the shows that go into the average setlist
+ */
+
+export interface SetlistFilters {
+  /** Earliest show date to include, as YYYY-MM-DD */
+  dateFrom?: string;
+  /** Latest show date to include, as YYYY-MM-DD */
+  dateTo?: string;
+  /** Tour name, matched case-insensitively as a substring */
+  tourName?: string;
+  /** ISO 3166-1 alpha-2 country code, e.g. "GB" */
+  countryCode?: string;
+  /** City name, matched case-insensitively as a substring */
+  cityName?: string;
+  /** Venue name, matched case-insensitively as a substring */
+  venueName?: string;
+}
+
+export interface ShowDetails {
+  /** Show date as YYYY-MM-DD */
+  eventDate: string;
+  tourName?: string;
+  venueName?: string;
+  cityName?: string;
+  countryCode?: string;
+}
+
+/**
+ * What a set of sampled shows have in common, used to name and describe playlists
+ */
+export interface ShowSummary {
+  /** Dates of the earliest and latest show, as YYYY-MM-DD */
+  dateRange?: { from: string; to: string };
+  /** Tour every show belongs to */
+  tourName?: string;
+  /** Venue every show was played at, e.g. for a residency */
+  venueName?: string;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Checks whether a string is a calendar date in YYYY-MM-DD format
+ * @param value - String to check
+ * @returns True if the string is a valid ISO date
+ */
+export function isIsoDate(value: string): boolean {
+  if (!ISO_DATE.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Converts a setlist.fm event date (DD-MM-YYYY) to YYYY-MM-DD
+ * @param eventDate - Date as returned by setlist.fm
+ * @returns ISO date, or the input unchanged if it is not in setlist.fm format
+ */
+export function toIsoDate(eventDate: string): string {
+  const match = eventDate.match(/^(\d{2})-(\d{2})-(\d{4})$/);
+  return match ? `${match[3]}-${match[2]}-${match[1]}` : eventDate;
+}
+
+/**
+ * Case-insensitive substring match where a missing filter always matches
+ */
+function containsText(value: string | undefined, filter: string | undefined): boolean {
+  if (!filter) {
+    return true;
+  }
+  return value !== undefined && value.toLowerCase().includes(filter.toLowerCase());
+}
+
+/**
+ * Checks whether a show passes all the given filters
+ * @param show - Date, tour and venue details of the show
+ * @param filters - Filters to apply
+ * @returns True if the show should be included in the average
+ */
+export function matchesFilters(show: ShowDetails, filters: SetlistFilters): boolean {
+  const { dateFrom, dateTo, tourName, countryCode, cityName, venueName } = filters;
+
+  // ISO dates compare correctly as strings
+  if (dateFrom && show.eventDate < dateFrom) {
+    return false;
+  }
+  if (dateTo && show.eventDate > dateTo) {
+    return false;
+  }
+  if (countryCode && show.countryCode?.toUpperCase() !== countryCode.toUpperCase()) {
+    return false;
+  }
+
+  return (
+    containsText(show.tourName, tourName) &&
+    containsText(show.cityName, cityName) &&
+    containsText(show.venueName, venueName)
+  );
+}
+
+/**
+ * Returns the value every item shares, or undefined if they differ or it is missing
+ */
+function sharedValue(values: Array<string | undefined>): string | undefined {
+  const [first] = values;
+  return first && values.every((value) => value === first) ? first : undefined;
+}
+
+/**
+ * Summarizes the date range, tour and venue of a set of shows
+ * @param shows - Details of the shows
+ * @returns Date range, plus the tour and venue if every show shares them
+ */
+export function summarizeShows(shows: ShowDetails[]): ShowSummary {
+  const dates = shows.map((show) => show.eventDate).filter(isIsoDate).sort();
+  const tourName = sharedValue(shows.map((show) => show.tourName));
+  const venueName = sharedValue(shows.map((show) => show.venueName));
+
+  return {
+    ...(dates.length > 0 ? { dateRange: { from: dates[0], to: dates[dates.length - 1] } } : {}),
+    ...(tourName ? { tourName } : {}),
+    ...(venueName ? { venueName } : {}),
+  };
+}
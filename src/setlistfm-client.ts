@@ -0,0 +1,127 @@
+/**
+ * Cached, rate-limit aware access to the setlist.fm API
+ *
+ * setlist.fm enforces strict per-key quotas, so responses are cached and
+ * 429 responses are retried after a backoff. When setlist.fm stays
+ * unavailable, a stale cached response is served instead of failing.
+ */
+
+import axios from 'axios';
+import { getCacheStore } from './cache-store.js';
+import { logError } from './error-handler.js';
+import { withRetry } from './http-retry.js';
+
+/** Name of the cache store holding setlist.fm responses */
+export const SETLISTFM_CACHE_NAME = 'setlistfm';
+
+/** Setlists of the current year change as shows are added, so they are refreshed hourly */
+export const CURRENT_YEAR_TTL_SECONDS = 60 * 60;
+
+/** Setlists of past years rarely change */
+export const PAST_YEAR_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Single setlists and artist searches */
+export const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+/** How long an expired response is kept to be served while setlist.fm is unavailable */
+const STALE_GRACE_SECONDS = 7 * 24 * 60 * 60;
+
+const BASE_URL = 'https://api.setlist.fm/rest/1.0';
+
+interface CachedResponse<T> {
+  /** Response data, or null if setlist.fm answered 404 */
+  data: T | null;
+  /** Milliseconds since the epoch until which the response is fresh */
+  freshUntil: number;
+}
+
+/**
+ * Picks the TTL for setlists of a year
+ * @param year - Year the setlists are from
+ * @returns TTL in seconds
+ */
+export function ttlForYear(year: number): number {
+  return year >= new Date().getFullYear() ? CURRENT_YEAR_TTL_SECONDS : PAST_YEAR_TTL_SECONDS;
+}
+
+/**
+ * Builds the cache key of a request from its path and sorted parameters
+ */
+function cacheKey(path: string, params: Record<string, string | number>): string {
+  const query = Object.keys(params)
+    .sort()
+    .map((name) => `${name}=${encodeURIComponent(String(params[name]))}`)
+    .join('&');
+  return query ? `${path.replace(/^\//, '')}/${query}` : path.replace(/^\//, '');
+}
+
+/**
+ * Fetches a setlist.fm resource, serving it from the cache while fresh
+ *
+ * 404 responses are cached too, as setlist.fm uses them for empty results.
+ * Other errors are rethrown unchanged so callers keep their own error
+ * handling, unless a stale copy of the response can be served instead.
+ *
+ * @param path - API path, e.g. "/artist/{mbid}/setlists"
+ * @param params - Query parameters
+ * @param apiKey - setlist.fm API key
+ * @param ttlSeconds - How long the response stays fresh
+ * @returns Response data, or null if setlist.fm answered 404
+ */
+export async function getSetlistFm<T>(
+  path: string,
+  params: Record<string, string | number>,
+  apiKey: string,
+  ttlSeconds: number
+): Promise<T | null> {
+  const cache = getCacheStore(SETLISTFM_CACHE_NAME);
+  const key = cacheKey(path, params);
+
+  let cached: CachedResponse<T> | null = null;
+  try {
+    cached = await cache.get<CachedResponse<T>>(key);
+  } catch (error) {
+    logError(error instanceof Error ? error : new Error(String(error)), { cacheKey: key });
+  }
+  if (cached && cached.freshUntil > Date.now()) {
+    return cached.data;
+  }
+
+  let data: T | null;
+  try {
+    const response = await withRetry(() =>
+      axios.get<T>(`${BASE_URL}${path}`, {
+        params,
+        headers: {
+          'x-api-key': apiKey,
+          'Accept': 'application/json',
+        },
+      })
+    );
+    data = response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      data = null;
+    } else if (cached) {
+      // Better slightly outdated setlists than none at all
+      logError(error instanceof Error ? error : new Error(String(error)), {
+        cacheKey: key,
+        servedStale: true,
+      });
+      return cached.data;
+    } else {
+      throw error;
+    }
+  }
+
+  try {
+    await cache.set<CachedResponse<T>>(
+      key,
+      { data, freshUntil: Date.now() + ttlSeconds * 1000 },
+      ttlSeconds + STALE_GRACE_SECONDS
+    );
+  } catch (error) {
+    logError(error instanceof Error ? error : new Error(String(error)), { cacheKey: key });
+  }
+  return data;
+}
@@ -0,0 +1,81 @@
+/**
+ * Song cleaner for removing non-song entries from setlists before averaging
+ */
+
+import { PlayedSong } from './setlist-fetcher.js';
+
+/**
+ * How to treat songs whose setlist.fm note marks them as only partly played
+ * - keep: count them like any other song
+ * - drop: leave them out of the setlist
+ */
+export type PartialSongPolicy = 'keep' | 'drop';
+
+export interface SongCleaningOptions {
+  /** Keep tape intros and walk-on music (defaults to false) */
+  keepTapes?: boolean;
+  /** Split medleys such as "Song A / Song B" into their songs (defaults to true) */
+  splitMedleys?: boolean;
+  /** Policy for songs noted as snippets or partial performances (defaults to drop) */
+  partialSongs?: PartialSongPolicy;
+}
+
+const MEDLEY_SEPARATOR = /\s+\/\s+/;
+const PARTIAL_NOTE = /\b(snippet|partial|excerpt|tease|intro only|outro only)\b/i;
+
+/**
+ * Checks whether a setlist.fm note marks the song as only partly played
+ * @param info - The `info` note from setlist.fm
+ * @returns True if the note describes a snippet or partial performance
+ */
+export function isPartialPerformance(info: string | undefined): boolean {
+  return info !== undefined && PARTIAL_NOTE.test(info);
+}
+
+/**
+ * Splits a medley entry into its component song names
+ * @param name - Song name as listed on setlist.fm
+ * @returns Component song names, or the original name if it is not a medley
+ */
+export function splitMedley(name: string): string[] {
+  return name
+    .split(MEDLEY_SEPARATOR)
+    .map((part) => part.trim())
+    .filter((part) => part !== '');
+}
+
+/**
+ * Cleans the songs of a single show
+ * @param songs - Songs in the order they were played
+ * @param options - Cleaning options
+ * @returns Songs with tapes, empty entries and partial performances handled
+ */
+export function cleanShowSongs(
+  songs: PlayedSong[],
+  options: SongCleaningOptions = {}
+): PlayedSong[] {
+  const { keepTapes = false, splitMedleys = true, partialSongs = 'drop' } = options;
+  const cleaned: PlayedSong[] = [];
+
+  for (const song of songs) {
+    const name = song.name?.trim() ?? '';
+
+    // Unnamed entries are placeholders for unknown songs
+    if (name === '') {
+      continue;
+    }
+    if (song.tape && !keepTapes) {
+      continue;
+    }
+    if (partialSongs === 'drop' && isPartialPerformance(song.info)) {
+      continue;
+    }
+
+    const names = splitMedleys ? splitMedley(name) : [name];
+    for (const componentName of names) {
+      cleaned.push({ ...song, name: componentName });
+    }
+  }
+
+  return cleaned;
+}
@@ -0,0 +1,361 @@
+/**
+ * Spotify Web API adapter of the music provider interface
+ */
+
+import axios from 'axios';
+import { AuthenticationError, ExternalAPIError, logError } from './error-handler.js';
+import { withRetry } from './http-retry.js';
+import { TrackCandidate } from './track-scorer.js';
+import { MusicProvider, PlaylistDetails, ProviderArtist, TrackQuery } from './music-provider.js';
+
+export interface SpotifyProviderOptions {
+  /** Base URL of the Web API, e.g. a local fake server in tests */
+  baseUrl?: string;
+}
+
+const SPOTIFY_API_URL = 'https://api.spotify.com/v1';
+
+/** Spotify track URIs, e.g. spotify:track:4uLU6hMCjMI75M1A2tKUQC */
+const TRACK_URI = /^spotify:track:[A-Za-z0-9]{22}$/;
+
+/**
+ * Spotify accepts at most this many tracks per add request
+ */
+const MAX_TRACKS_PER_REQUEST = 100;
+
+/**
+ * Track writes are only retried on 429: after a 5xx, Spotify may already have
+ * added the tracks, and retrying would add them twice
+ */
+const TRACK_WRITE_RETRY = { retryServerErrors: false };
+
+/** Number of artists fetched when resolving a name */
+const ARTIST_CANDIDATE_LIMIT = 10;
+
+interface SpotifySearchResponse {
+  tracks: {
+    items: TrackCandidate[];
+  };
+}
+
+interface SpotifyArtistResponse {
+  id: string;
+  name: string;
+  popularity?: number;
+  genres?: string[];
+}
+
+interface SpotifyArtistSearchResponse {
+  artists: {
+    items: SpotifyArtistResponse[];
+  };
+}
+
+interface SpotifyUserResponse {
+  id: string;
+  display_name: string;
+}
+
+interface SpotifyPlaylistResponse {
+  id: string;
+  name: string;
+  public: boolean;
+}
+
+interface SpotifyPlaylistPage {
+  items: Array<{ id: string; name: string; owner: { id: string } }>;
+  next: string | null;
+}
+
+interface SpotifyPlaylistItemsPage {
+  items: Array<{ track: { uri: string } | null }>;
+  next: string | null;
+}
+
+/**
+ * Turns a failed Spotify request into an AuthenticationError or ExternalAPIError and logs it
+ * @param error - Error thrown by axios
+ * @param action - What was being done, for the message, e.g. "artist search"
+ * @param context - Additional context for the log
+ * @returns Error to throw
+ */
+function toSpotifyError(error: unknown, action: string, context: Record<string, unknown>): Error {
+  if (!axios.isAxiosError(error)) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+  if (error.response?.status === 401) {
+    const authError = new AuthenticationError(
+      'Invalid or expired access token',
+      { statusCode: error.response.status }
+    );
+    logError(authError, context);
+    return authError;
+  }
+  const apiError = new ExternalAPIError(
+    `Spotify ${action} failed: ${error.message}`,
+    'Spotify',
+    { statusCode: error.response?.status }
+  );
+  logError(apiError, context);
+  return apiError;
+}
+
+/**
+ * Maps a Spotify artist response to the shape returned to callers
+ */
+function toProviderArtist(artist: SpotifyArtistResponse): ProviderArtist {
+  return {
+    id: artist.id,
+    name: artist.name,
+    popularity: artist.popularity ?? 0,
+    genres: artist.genres ?? [],
+  };
+}
+
+/**
+ * Builds the JSON body fields setting a playlist's visibility.
+ * Spotify only allows collaborative playlists to be private.
+ */
+function visibilityFields(details: PlaylistDetails): Record<string, boolean> {
+  return {
+    public: details.visibility === 'public',
+    collaborative: details.visibility === 'collaborative',
+  };
+}
+
+/**
+ * Creates the Spotify music provider
+ * @param options - Base URL of the Web API
+ * @returns Music provider calling the Spotify Web API
+ */
+export function createSpotifyProvider(options: SpotifyProviderOptions = {}): MusicProvider {
+  const baseUrl = options.baseUrl ?? SPOTIFY_API_URL;
+  const authorization = (accessToken: string) => ({ 'Authorization': `Bearer ${accessToken}` });
+  const jsonHeaders = (accessToken: string) => ({
+    ...authorization(accessToken),
+    'Content-Type': 'application/json',
+  });
+
+  return {
+    name: 'spotify',
+    label: 'Spotify',
+    maxTracksPerRequest: MAX_TRACKS_PER_REQUEST,
+
+    isTrackUri(uri) {
+      return TRACK_URI.test(uri);
+    },
+
+    async searchTracks(query: TrackQuery, accessToken) {
+      const q = `track:${query.songName} artist:${query.artistName}`;
+      try {
+        // Rate limits and transient server errors are retried before giving up
+        const response = await withRetry(() =>
+          axios.get<SpotifySearchResponse>(`${baseUrl}/search`, {
+            params: {
+              q: query.keyword ? `${q} ${query.keyword}` : q,
+              type: 'track',
+              limit: query.limit,
+              ...(query.market ? { market: query.market } : {}),
+            },
+            headers: authorization(accessToken),
+          })
+        );
+        return response.data.tracks.items;
+      } catch (error) {
+        throw toSpotifyError(error, 'track search', {
+          songName: query.songName,
+          artistName: query.artistName,
+        });
+      }
+    },
+
+    async searchArtists(artistName, accessToken) {
+      try {
+        const response = await withRetry(() =>
+          axios.get<SpotifyArtistSearchResponse>(`${baseUrl}/search`, {
+            params: {
+              q: `artist:${artistName}`,
+              type: 'artist',
+              limit: ARTIST_CANDIDATE_LIMIT,
+            },
+            headers: authorization(accessToken),
+          })
+        );
+        return response.data.artists.items.map(toProviderArtist);
+      } catch (error) {
+        throw toSpotifyError(error, 'artist search', { artistName });
+      }
+    },
+
+    async getArtist(artistId, accessToken) {
+      try {
+        const response = await withRetry(() =>
+          axios.get<SpotifyArtistResponse>(`${baseUrl}/artists/${artistId}`, {
+            headers: authorization(accessToken),
+          })
+        );
+        return toProviderArtist(response.data);
+      } catch (error) {
+        // Spotify answers 400 for malformed IDs and 404 for unknown ones
+        if (
+          axios.isAxiosError(error) &&
+          (error.response?.status === 400 || error.response?.status === 404)
+        ) {
+          return null;
+        }
+        throw toSpotifyError(error, 'artist lookup', { spotifyArtistId: artistId });
+      }
+    },
+
+    async getUserId(accessToken) {
+      try {
+        const response = await axios.get<SpotifyUserResponse>(`${baseUrl}/me`, {
+          headers: authorization(accessToken),
+        });
+        return response.data.id;
+      } catch (error) {
+        throw toSpotifyError(error, 'user lookup', {});
+      }
+    },
+
+    async createPlaylist(userId, details, accessToken) {
+      try {
+        const response = await axios.post<SpotifyPlaylistResponse>(
+          `${baseUrl}/users/${userId}/playlists`,
+          {
+            name: details.name,
+            // Playlists are private unless asked otherwise (Requirement 4.3)
+            ...visibilityFields(details),
+            description: details.description,
+          },
+          { headers: jsonHeaders(accessToken) }
+        );
+        return response.data.id;
+      } catch (error) {
+        throw toSpotifyError(error, 'playlist creation', { playlistName: details.name });
+      }
+    },
+
+    async updatePlaylist(playlistId, details, accessToken) {
+      try {
+        await withRetry(() =>
+          axios.put(
+            `${baseUrl}/playlists/${playlistId}`,
+            {
+              name: details.name,
+              description: details.description,
+              ...(details.visibility ? visibilityFields(details) : {}),
+            },
+            { headers: jsonHeaders(accessToken) }
+          )
+        );
+      } catch (error) {
+        throw toSpotifyError(error, 'playlist update', { playlistId, playlistName: details.name });
+      }
+    },
+
+    async findPlaylist(playlistId, accessToken) {
+      try {
+        const response = await withRetry(() =>
+          axios.get<{ id: string; owner: { id: string } }>(
+            `${baseUrl}/playlists/${encodeURIComponent(playlistId)}`,
+            {
+              params: { fields: 'id,owner.id' },
+              headers: authorization(accessToken),
+            }
+          )
+        );
+        return { id: response.data.id, ownerId: response.data.owner.id };
+      } catch (error) {
+        if (
+          axios.isAxiosError(error) &&
+          (error.response?.status === 404 || error.response?.status === 400)
+        ) {
+          return null;
+        }
+        throw toSpotifyError(error, 'playlist lookup', { playlistId });
+      }
+    },
+
+    async findPlaylistByName(userId, name, accessToken) {
+      let url: string | null = `${baseUrl}/me/playlists?limit=50`;
+
+      while (url) {
+        const pageUrl: string = url;
+        try {
+          const response = await withRetry(() =>
+            axios.get<SpotifyPlaylistPage>(pageUrl, { headers: authorization(accessToken) })
+          );
+          const match = response.data.items.find(
+            (playlist) => playlist?.name === name && playlist.owner?.id === userId
+          );
+          if (match) {
+            return match.id;
+          }
+          url = response.data.next;
+        } catch (error) {
+          throw toSpotifyError(error, 'playlist lookup', { playlistName: name });
+        }
+      }
+
+      return null;
+    },
+
+    async getPlaylistTrackUris(playlistId, accessToken) {
+      const uris: string[] = [];
+      let url: string | null =
+        `${baseUrl}/playlists/${playlistId}/tracks?limit=100&fields=items(track(uri)),next`;
+
+      while (url) {
+        const pageUrl: string = url;
+        try {
+          const response = await withRetry(() =>
+            axios.get<SpotifyPlaylistItemsPage>(pageUrl, { headers: authorization(accessToken) })
+          );
+          for (const item of response.data.items) {
+            if (item.track?.uri) {
+              uris.push(item.track.uri);
+            }
+          }
+          url = response.data.next;
+        } catch (error) {
+          throw toSpotifyError(error, 'playlist lookup', { playlistId });
+        }
+      }
+
+      return uris;
+    },
+
+    async addTracks(playlistId, trackUris, accessToken) {
+      try {
+        await withRetry(
+          () =>
+            axios.post(
+              `${baseUrl}/playlists/${playlistId}/tracks`,
+              { uris: trackUris },
+              { headers: jsonHeaders(accessToken) }
+            ),
+          TRACK_WRITE_RETRY
+        );
+      } catch (error) {
+        throw toSpotifyError(error, 'track add', { playlistId, trackCount: trackUris.length });
+      }
+    },
+
+    async replaceTracks(playlistId, trackUris, accessToken) {
+      try {
+        await withRetry(
+          () =>
+            axios.put(
+              `${baseUrl}/playlists/${playlistId}/tracks`,
+              { uris: trackUris },
+              { headers: jsonHeaders(accessToken) }
+            ),
+          TRACK_WRITE_RETRY
+        );
+      } catch (error) {
+        throw toSpotifyError(error, 'track replace', { playlistId, trackCount: trackUris.length });
+      }
+    },
+  };
+}
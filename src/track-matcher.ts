@@ -1,112 +1,356 @@
 /**
- * Track matcher for searching and matching Spotify tracks
+ * Track matcher for searching and matching tracks on a music provider
  */
 
-import axios from 'axios';
 import { SetlistSong } from './setlist-fetcher.js';
-import { AuthenticationError, ExternalAPIError } from './error-handler.js';
+import { AuthenticationError, ExternalAPIError, logError } from './error-handler.js';
+import { mapWithConcurrency } from './http-retry.js';
+import { CacheStore } from './cache-store.js';
+import {
+  CachedMatch,
+  MATCH_TTL_SECONDS,
+  MatchCacheKey,
+  NO_MATCH_TTL_SECONDS,
+  readCachedMatch,
+  writeCachedMatch,
+} from './match-cache.js';
+import {
+  DEFAULT_MIN_CONFIDENCE,
+  scoreCandidate,
+  RecordingVersion,
+  TrackCandidate,
+} from './track-scorer.js';
+import { getMusicProvider, MusicProvider } from './music-provider.js';
+
+/**
+ * Which recordings to prefer when matching
+ * - studio: studio originals (the default)
+ * - live / acoustic: live or acoustic recordings where they exist
+ * - as-played: follow the setlist.fm note, e.g. "acoustic", and studio otherwise
+ */
+export type VersionPreference = RecordingVersion | 'as-played';
+
+export type MatchStatus = 'matched' | 'no-match' | 'failed';
+
+/**
+ * Track details shown when reviewing matches
+ */
+export interface MatchedTrack {
+  name: string;
+  artists: string[];
+  album?: string;
+  /** URL of the smallest album cover of at least 64 pixels */
+  artworkUrl?: string;
+}
 
 export interface TrackSearchResult {
   songName: string;
   trackUri: string | null;
   found: boolean;
+  /**
+   * Outcome of the search
+   * - matched: a track reached the minimum confidence
+   * - no-match: the search worked but found no convincing track
+   * - failed: the provider kept failing, even after retries
+   */
+  status: MatchStatus;
+  /** Why the search failed, when status is "failed" */
+  error?: string;
+  /** Score of the best candidate from 0 to 1, also set when it fell below the threshold */
+  confidence?: number;
+  /** Whose recording was matched: the performing artist's or, for covers, the original artist's */
+  matchedVia?: 'performer' | 'original-artist';
+  /** Details of the matched track */
+  track?: MatchedTrack;
 }
 
-interface SpotifySearchResponse {
-  tracks: {
-    items: Array<{
-      uri: string;
-      name: string;
-      artists: Array<{
-        name: string;
-      }>;
-    }>;
+export interface TrackSearchOptions {
+  /** Candidates scoring below this are rejected (defaults to DEFAULT_MIN_CONFIDENCE) */
+  minConfidence?: number;
+  /** Kind of recording to look for (defaults to studio) */
+  version?: RecordingVersion;
+  /** Pinned artist ID the track must credit, as main or featured artist */
+  artistId?: string;
+  /** ISO 3166-1 alpha-2 country code; only tracks playable there are returned */
+  market?: string;
+  /** Cache consulted before searching and updated afterwards */
+  cache?: CacheStore;
+  /** Service to search (defaults to Spotify) */
+  provider?: MusicProvider;
+}
+
+export interface TrackMatchOptions {
+  /** Candidates scoring below this are rejected (defaults to DEFAULT_MIN_CONFIDENCE) */
+  minConfidence?: number;
+  /** Which recordings to prefer (defaults to studio) */
+  versionPreference?: VersionPreference;
+  /** Pinned provider ID of the performing artist */
+  providerArtistId?: string;
+  /** Number of songs searched at the same time (defaults to DEFAULT_MATCH_CONCURRENCY) */
+  concurrency?: number;
+  /** ISO 3166-1 alpha-2 country code; only tracks playable there are matched */
+  market?: string;
+  /** Cache of earlier matches, consulted before searching */
+  cache?: CacheStore;
+  /** Service to search (defaults to Spotify) */
+  provider?: MusicProvider;
+}
+
+/**
+ * Number of search results scored per song
+ */
+const CANDIDATE_LIMIT = 10;
+
+/**
+ * Number of songs searched at the same time by default
+ */
+export const DEFAULT_MATCH_CONCURRENCY = 5;
+
+/**
+ * Resolves the recording version to search for a song
+ * @param preference - Version preference of the request
+ * @param song - Song from setlist, whose note is used for "as-played"
+ * @returns Kind of recording to look for
+ */
+export function resolveVersion(
+  preference: VersionPreference,
+  song: SetlistSong
+): RecordingVersion {
+  if (preference !== 'as-played') {
+    return preference;
+  }
+  if (song.info && /\bacoustic\b/i.test(song.info)) {
+    return 'acoustic';
+  }
+  return 'studio';
+}
+
+/**
+ * Extracts the details shown for a matched track
+ * @param candidate - Track candidate
+ * @returns Title, artists, album name and artwork URL
+ */
+function describeTrack(candidate: TrackCandidate): MatchedTrack {
+  // Album images are listed from largest to smallest
+  const images = candidate.album?.images ?? [];
+  const artwork = [...images].reverse().find((image) => (image.width ?? 0) >= 64) ?? images[0];
+
+  return {
+    name: candidate.name,
+    artists: candidate.artists.map((artist) => artist.name),
+    ...(candidate.album ? { album: candidate.album.name } : {}),
+    ...(artwork ? { artworkUrl: artwork.url } : {}),
   };
 }
 
 /**
- * Searches Spotify for a track matching the song name and artist
+ * Searches the provider and scores the candidates for a song
+ * @param songName - Name of the song to search for
+ * @param artistName - Name of the artist
+ * @param accessToken - Provider access token
+ * @param provider - Service to search
+ * @param options - Search options such as the minimum confidence and version
+ * @returns The best-scoring candidate, with a null URI if there were none
+ */
+async function findBestCandidate(
+  songName: string,
+  artistName: string,
+  accessToken: string,
+  provider: MusicProvider,
+  options: TrackSearchOptions
+): Promise<CachedMatch> {
+  const { minConfidence = DEFAULT_MIN_CONFIDENCE, version = 'studio', artistId, market } = options;
+  // Live and acoustic versions are searched for by keyword first
+  const keywords = version === 'studio' ? [undefined] : [version, undefined];
+  
+  // Score every candidate and keep the best one (Requirement 3.3)
+  let best: CachedMatch = { trackUri: null };
+  for (const keyword of keywords) {
+    const candidates = await provider.searchTracks(
+      { songName, artistName, keyword, market, limit: CANDIDATE_LIMIT },
+      accessToken
+    );
+    for (const track of candidates) {
+      const score = scoreCandidate(track, songName, artistName, { version, artistId });
+      if (best.confidence === undefined || score > best.confidence) {
+        best = { trackUri: track.uri, confidence: score, track: describeTrack(track) };
+      }
+    }
+    if (best.confidence !== undefined && best.confidence >= minConfidence) {
+      break;
+    }
+  }
+  
+  return best;
+}
+
+/**
+ * Searches a music provider for a track matching the song name and artist
+ *
+ * Fetches several candidates and keeps the best-scoring one, provided it
+ * reaches the minimum confidence. Live and acoustic versions are searched
+ * for specifically first, falling back to a plain search. With a cache, an
+ * earlier search for the same song, artist, version and market is reused.
+ *
  * @param songName - Name of the song to search for
  * @param artistName - Name of the artist
- * @param accessToken - Spotify access token
- * @returns Search result with track URI if found
+ * @param accessToken - Provider access token
+ * @param options - Search options such as the minimum confidence, version and provider
+ * @returns Search result with track URI and confidence if found, or the failure
  * @throws AuthenticationError if authentication fails
- * @throws ExternalAPIError if Spotify API is unavailable (for critical failures)
  */
-export async function searchSpotifyTrack(
+export async function searchTrack(
   songName: string,
   artistName: string,
-  accessToken: string
+  accessToken: string,
+  options: TrackSearchOptions = {}
 ): Promise<TrackSearchResult> {
+  const {
+    minConfidence = DEFAULT_MIN_CONFIDENCE,
+    version = 'studio',
+    artistId,
+    market,
+    cache,
+    provider = getMusicProvider(),
+  } = options;
+  const cacheKey: MatchCacheKey = {
+    songName,
+    artistName,
+    artistId,
+    version,
+    market,
+    provider: provider.name,
+  };
+  
   try {
-    const query = `track:${songName} artist:${artistName}`;
-    const url = 'https://api.spotify.com/v1/search';
-    
-    const response = await axios.get<SpotifySearchResponse>(url, {
-      params: {
-        q: query,
-        type: 'track',
-        limit: 1,
-      },
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-      },
-    });
+    let best = cache ? await readCachedMatch(cache, cacheKey) : null;
+    if (!best) {
+      best = await findBestCandidate(songName, artistName, accessToken, provider, options);
+      if (cache) {
+        const matched = best.trackUri !== null && (best.confidence ?? 0) >= minConfidence;
+        await writeCachedMatch(
+          cache,
+          cacheKey,
+          best,
+          matched ? MATCH_TTL_SECONDS : NO_MATCH_TTL_SECONDS
+        );
+      }
+    }
     
-    // Extract track URI from first result if available (Requirement 3.3)
-    if (response.data.tracks.items.length > 0) {
-      const track = response.data.tracks.items[0];
+    if (best.trackUri && best.confidence !== undefined && best.confidence >= minConfidence) {
       return {
         songName,
-        trackUri: track.uri,
+        trackUri: best.trackUri,
         found: true,
+        status: 'matched',
+        confidence: best.confidence,
+        ...(best.track ? { track: best.track } : {}),
       };
     }
     
-    // No track found
+    // No track found, or the best candidate was not convincing enough
     return {
       songName,
       trackUri: null,
       found: false,
+      status: 'no-match',
+      ...(best.confidence !== undefined ? { confidence: best.confidence } : {}),
     };
   } catch (error) {
     // Check for authentication errors
-    if (axios.isAxiosError(error) && error.response?.status === 401) {
-      throw new AuthenticationError(
-        'Invalid or expired access token',
-        { statusCode: error.response.status }
-      );
+    if (error instanceof AuthenticationError) {
+      throw error;
     }
     // For other API errors, continue processing (Requirement 3.4)
-    // but log that there was an issue
+    // but log that there was an issue and report the song as failed.
+    // The provider has already logged the errors it recognized.
+    let apiError: ExternalAPIError;
+    if (error instanceof ExternalAPIError) {
+      apiError = error;
+    } else {
+      apiError = new ExternalAPIError(
+        `${provider.label} track search failed: ${error instanceof Error ? error.message : String(error)}`,
+        provider.label
+      );
+      logError(apiError, { songName, artistName });
+    }
     return {
       songName,
       trackUri: null,
       found: false,
+      status: 'failed',
+      error: apiError.message,
     };
   }
 }
 
 /**
- * Matches all songs from a setlist to Spotify tracks
+ * Matches a single setlist song, falling back to the original artist for covers
+ * @param song - Song from setlist
+ * @param artistName - Name of the performing artist
+ * @param accessToken - Provider access token
+ * @param options - Matching options such as the minimum confidence
+ * @returns Search result recording which artist's recording was matched
+ */
+async function matchSong(
+  song: SetlistSong,
+  artistName: string,
+  accessToken: string,
+  options: TrackMatchOptions
+): Promise<TrackSearchResult> {
+  const searchOptions: TrackSearchOptions = {
+    minConfidence: options.minConfidence,
+    version: resolveVersion(options.versionPreference ?? 'studio', song),
+    market: options.market,
+    cache: options.cache,
+    provider: options.provider,
+  };
+  
+  // Try the performing artist's version first, pinned to their provider ID
+  const result = await searchTrack(song.name, artistName, accessToken, {
+    ...searchOptions,
+    artistId: options.providerArtistId,
+  });
+  if (result.found) {
+    return { ...result, matchedVia: 'performer' };
+  }
+
+  // For covers, fall back to the original artist's recording. A failed search
+  // is reported as is rather than hidden behind the fallback's outcome.
+  if (result.status === 'no-match' && song.cover && song.cover.artistName !== artistName) {
+    const coverResult = await searchTrack(
+      song.name,
+      song.cover.artistName,
+      accessToken,
+      searchOptions
+    );
+    if (coverResult.found) {
+      return { ...coverResult, matchedVia: 'original-artist' };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Matches all songs from a setlist to tracks on a music provider
  * @param songs - Array of songs from setlist
  * @param artistName - Name of the artist
- * @param accessToken - Spotify access token
- * @returns Array of search results with found/not-found status
+ * @param accessToken - Provider access token
+ * @param options - Matching options such as the minimum confidence
+ * @returns Search results in setlist order, each matched, unmatched or failed
  */
 export async function matchAllTracks(
   songs: SetlistSong[],
   artistName: string,
-  accessToken: string
+  accessToken: string,
+  options: TrackMatchOptions = {}
 ): Promise<TrackSearchResult[]> {
-  const results: TrackSearchResult[] = [];
-  
-  // Iterate through all songs and search for each (Requirement 3.1)
-  for (const song of songs) {
-    const result = await searchSpotifyTrack(song.name, artistName, accessToken);
-    results.push(result);
-    // Continue processing even if individual searches fail (Requirement 3.4)
-  }
+  const concurrency = options.concurrency ?? DEFAULT_MATCH_CONCURRENCY;
   
-  return results;
+  // Search a few songs at a time, keeping results in setlist order (Requirement 3.1).
+  // Failed searches are reported per song rather than aborting (Requirement 3.4)
+  return mapWithConcurrency(songs, concurrency, (song) =>
+    matchSong(song, artistName, accessToken, options)
+  );
 }
@@ -0,0 +1,228 @@
+/**
+ * Track scorer for ranking music provider search candidates against a setlist song
+ */
+
+export interface TrackCandidate {
+  uri: string;
+  name: string;
+  artists: Array<{
+    id?: string;
+    name: string;
+  }>;
+  album?: {
+    name: string;
+    album_type?: string;
+    images?: Array<{
+      url: string;
+      width?: number | null;
+      height?: number | null;
+    }>;
+  };
+}
+
+/**
+ * Kind of recording to match a setlist song against
+ */
+export type RecordingVersion = 'studio' | 'live' | 'acoustic';
+
+/**
+ * Options for scoring a candidate
+ * - version: Preferred kind of recording (defaults to studio)
+ * - artistId: Pinned provider artist ID; when set, the artist must be credited
+ *   on the track (as main or featured artist) rather than merely share a name
+ */
+export interface ScoreOptions {
+  version?: RecordingVersion;
+  artistId?: string;
+}
+
+/**
+ * Matches scoring below this confidence are rejected by default
+ */
+export const DEFAULT_MIN_CONFIDENCE = 0.7;
+
+/**
+ * Candidates whose normalized title is less similar than this are a different
+ * song, however well the artist and album fit, e.g. "Fade to Blue" for
+ * "Fade to Black"
+ */
+export const MIN_TITLE_SIMILARITY = 0.85;
+
+const TITLE_WEIGHT = 0.5;
+const ARTIST_WEIGHT = 0.35;
+const ALBUM_TYPE_WEIGHT = 0.15;
+/** Small enough that a studio recording still matches when the preferred version is missing */
+const MISSING_VERSION_PENALTY = 0.1;
+
+/** Relative preference for where the track was released */
+const ALBUM_TYPE_SCORES: Record<string, number> = {
+  album: 1,
+  single: 0.7,
+  compilation: 0.2,
+};
+
+/**
+ * Versions that are rarely what a setlist song refers to, with their penalty.
+ * Live versions and remixes are still acceptable when nothing else exists;
+ * karaoke, tribute and cover versions are not.
+ */
+const VERSION_PENALTIES: Record<string, number> = {
+  acoustic: 0.1,
+  live: 0.2,
+  remix: 0.2,
+  instrumental: 0.3,
+  karaoke: 0.5,
+  tribute: 0.5,
+  cover: 0.5,
+};
+
+/**
+ * Normalizes a title for comparison
+ *
+ * Lowercases, strips accents, drops bracketed notes and " - Remastered"-style
+ * suffixes, and removes punctuation.
+ *
+ * @param title - Song or track title
+ * @returns Normalized title
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s[-–—]\s.*$/, '')
+    .replace(/[([{].*?[)\]}]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Compares two titles after normalization
+ * @param a - First title
+ * @param b - Second title
+ * @returns Similarity from 0 (unrelated) to 1 (identical)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+
+  if (left === right) {
+    return 1;
+  }
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) {
+    return 0;
+  }
+  return 1 - editDistance(left, right) / longest;
+}
+
+/**
+ * Splits text into lowercase words
+ */
+function wordsIn(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u));
+}
+
+/**
+ * Lists the words in a candidate's track and album names
+ */
+function candidateWords(candidate: TrackCandidate): Set<string> {
+  return wordsIn(`${candidate.name} ${candidate.album?.name ?? ''}`);
+}
+
+/**
+ * Lists the unwanted version markers (live, remix, ...) found in a candidate
+ * that the setlist song name does not itself ask for
+ * @param candidate - Track candidate from the provider's search
+ * @param songName - Song name from the setlist
+ * @param version - Preferred recording; its own marker is not unwanted
+ * @returns Matching version markers
+ */
+export function unwantedVersions(
+  candidate: TrackCandidate,
+  songName: string,
+  version: RecordingVersion = 'studio'
+): string[] {
+  const songWords = wordsIn(songName);
+  const words = candidateWords(candidate);
+
+  return Object.keys(VERSION_PENALTIES).filter(
+    (marker) => marker !== version && words.has(marker) && !songWords.has(marker)
+  );
+}
+
+/**
+ * Scores how well a provider's track matches a setlist song
+ *
+ * Candidates whose title is not close enough to the song's score 0. The rest
+ * combine normalized title similarity, an exact artist match and the album
+ * type (albums over singles over compilations), minus a penalty for each
+ * unwanted version marker such as "Live" or "Karaoke". When a live or
+ * acoustic recording is preferred, candidates without that marker lose a
+ * little, so the studio recording is still used if nothing better exists.
+ *
+ * @param candidate - Track candidate from the provider's search
+ * @param songName - Song name from the setlist
+ * @param artistName - Artist the song should be by
+ * @param options - Preferred version and pinned artist ID
+ * @returns Confidence from 0 to 1
+ */
+export function scoreCandidate(
+  candidate: TrackCandidate,
+  songName: string,
+  artistName: string,
+  options: ScoreOptions = {}
+): number {
+  const version = options.version ?? 'studio';
+  const title = titleSimilarity(candidate.name, songName);
+  if (title < MIN_TITLE_SIMILARITY) {
+    return 0;
+  }
+
+  const wantedArtist = normalizeTitle(artistName);
+  const artistNames = candidate.artists.map((artist) => normalizeTitle(artist.name));
+  let artist = 0;
+  if (options.artistId) {
+    // A pinned ID settles it: same-named artists score nothing
+    artist = candidate.artists.some((credit) => credit.id === options.artistId) ? 1 : 0;
+  } else if (artistNames.includes(wantedArtist)) {
+    artist = 1;
+  } else if (
+    artistNames.some((name) => name.includes(wantedArtist) || wantedArtist.includes(name))
+  ) {
+    artist = 0.4;
+  }
+
+  const albumType = ALBUM_TYPE_SCORES[candidate.album?.album_type ?? ''] ?? 0.5;
+  let penalty = unwantedVersions(candidate, songName, version).reduce(
+    (total, marker) => total + VERSION_PENALTIES[marker],
+    0
+  );
+  if (version !== 'studio' && !candidateWords(candidate).has(version)) {
+    penalty += MISSING_VERSION_PENALTY;
+  }
+
+  const score =
+    title * TITLE_WEIGHT + artist * ARTIST_WEIGHT + albumType * ALBUM_TYPE_WEIGHT - penalty;
+  return Math.max(0, Math.min(1, score));
+}
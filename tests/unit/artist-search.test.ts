@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { getArtist, searchArtists } from '../../src/artist-search.js';
+import { DataNotFoundError } from '../../src/error-handler.js';
+import { createMemoryStore } from '../../src/cache-store.js';
+import { SETLISTFM_CACHE_NAME } from '../../src/setlistfm-client.js';
+
+vi.mock('axios');
+
+const mockedGet = vi.mocked(axios.get);
+
+beforeEach(async () => {
+  mockedGet.mockReset();
+  vi.mocked(axios.isAxiosError).mockReturnValue(true);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  await createMemoryStore(SETLISTFM_CACHE_NAME).deletePrefix('');
+});
+
+describe('searchArtists', () => {
+  it('maps setlist.fm artists, keeping disambiguations only where given', async () => {
+    mockedGet.mockResolvedValueOnce({
+      data: {
+        artist: [
+          { mbid: 'a74b1b7f', name: 'Radiohead', sortName: 'Radiohead', url: 'https://x' },
+          { mbid: 'b1c2', name: 'Genesis', sortName: 'Genesis', disambiguation: 'UK rock band' },
+        ],
+        total: 2,
+        page: 1,
+        itemsPerPage: 30,
+      },
+    });
+
+    const result = await searchArtists('Radiohead', 'key');
+
+    expect(mockedGet.mock.calls[0][1]?.params).toMatchObject({ artistName: 'Radiohead' });
+    expect(result).toEqual({
+      artists: [
+        { mbid: 'a74b1b7f', name: 'Radiohead', sortName: 'Radiohead' },
+        { mbid: 'b1c2', name: 'Genesis', sortName: 'Genesis', disambiguation: 'UK rock band' },
+      ],
+      total: 2,
+    });
+  });
+
+  it('returns an empty list when setlist.fm answers 404', async () => {
+    mockedGet.mockRejectedValueOnce({ response: { status: 404 }, message: 'Not Found' });
+
+    await expect(searchArtists('Nobody At All', 'key')).resolves.toEqual({ artists: [], total: 0 });
+  });
+});
+
+describe('getArtist', () => {
+  it('throws DataNotFoundError for unknown MBIDs', async () => {
+    mockedGet.mockRejectedValueOnce({ response: { status: 404 }, message: 'Not Found' });
+
+    await expect(getArtist('unknown-mbid', 'key')).rejects.toBeInstanceOf(DataNotFoundError);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createFileStore, createMemoryStore } from '../../src/cache-store.js';
+import { matchCacheKey, matchCachePrefix } from '../../src/match-cache.js';
+
+describe('createMemoryStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('expires entries after their TTL', async () => {
+    vi.useFakeTimers();
+    const store = createMemoryStore('ttl-test');
+    await store.set('key', { value: 1 }, 60);
+
+    expect(await store.get('key')).toEqual({ value: 1 });
+    vi.advanceTimersByTime(60_000);
+    expect(await store.get('key')).toBeNull();
+  });
+
+  it('deletes entries by prefix', async () => {
+    const store = createMemoryStore('prefix-test');
+    await store.set('a/1', 1, 60);
+    await store.set('a/2', 2, 60);
+    await store.set('b/1', 3, 60);
+
+    expect(await store.deletePrefix('a/')).toBe(2);
+    expect(await store.get('a/1')).toBeNull();
+    expect(await store.get('b/1')).toBe(3);
+  });
+});
+
+describe('createFileStore', () => {
+  it('round-trips entries through JSON files', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'cache-store-'));
+    try {
+      const store = createFileStore(directory);
+      await store.set('artist/song/any', { trackUri: 'spotify:track:1' }, 60);
+
+      expect(await store.get('artist/song/any')).toEqual({ trackUri: 'spotify:track:1' });
+      expect(await store.deletePrefix('artist/')).toBe(1);
+      expect(await store.get('artist/song/any')).toBeNull();
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('matchCacheKey', () => {
+  it('normalizes names and sits under the artist and song prefixes', () => {
+    const key = matchCacheKey({
+      songName: 'Heroes - 2017 Remaster',
+      artistName: 'David Bowie',
+      version: 'studio',
+      market: 'gb',
+    });
+
+    expect(key).toBe('david%20bowie/heroes/any/GB/studio');
+    expect(key.startsWith(matchCachePrefix('DAVID BOWIE', 'heroes'))).toBe(true);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createDeezerProvider } from '../../src/deezer-provider.js';
+import { MusicProvider } from '../../src/music-provider.js';
+import { searchTrack } from '../../src/track-matcher.js';
+import { createPlaylist } from '../../src/playlist-creator.js';
+import { AuthenticationError } from '../../src/error-handler.js';
+
+interface FakeRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+}
+
+type Route = (request: FakeRequest) => unknown;
+
+/**
+ * Local stand-in for the Deezer API: answers every request with the JSON of
+ * the matching route, or Deezer's "no data" error, and records the requests
+ */
+const routes = new Map<string, Route>();
+const requests: FakeRequest[] = [];
+let server: Server;
+let provider: MusicProvider;
+
+const VALID_TOKEN = 'deezer-token';
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const request = {
+      method: req.method ?? 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+    };
+    requests.push(request);
+
+    const route = routes.get(`${request.method} ${request.path}`);
+    const body = request.query.access_token !== VALID_TOKEN
+      ? { error: { type: 'OAuthException', message: 'Invalid OAuth access token.', code: 300 } }
+      : route
+        ? route(request)
+        : { error: { type: 'DataException', message: 'no data', code: 800 } };
+
+    // Deezer reports errors with a 200 response; Retry-After keeps retries quick here
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Retry-After': '0' });
+    res.end(JSON.stringify(body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  provider = createDeezerProvider({ baseUrl: `http://127.0.0.1:${port}` });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  routes.clear();
+  requests.length = 0;
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('Deezer provider', () => {
+  it('matches songs against Deezer search results', async () => {
+    routes.set('GET /search/track', () => ({
+      data: [
+        {
+          id: 1,
+          title: 'Creep (Live)',
+          artist: { id: 399, name: 'Radiohead' },
+          album: { title: 'Live Recordings' },
+        },
+        {
+          id: 3135556,
+          title: 'Creep',
+          artist: { id: 399, name: 'Radiohead' },
+          album: { title: 'Pablo Honey', cover_small: 'small.jpg', cover_medium: 'medium.jpg' },
+        },
+      ],
+    }));
+
+    const result = await searchTrack('Creep', 'Radiohead', VALID_TOKEN, { provider });
+
+    expect(result).toMatchObject({ status: 'matched', trackUri: 'deezer:track:3135556' });
+    expect(result.track).toMatchObject({ name: 'Creep', artists: ['Radiohead'], album: 'Pablo Honey' });
+    expect(requests[0].query.q).toBe('artist:"Radiohead" track:"Creep"');
+  });
+
+  it('rejects tokens Deezer reports as invalid in a 200 response', async () => {
+    await expect(
+      searchTrack('Creep', 'Radiohead', 'expired', { provider })
+    ).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('backs off when Deezer reports its quota as exceeded', async () => {
+    let calls = 0;
+    routes.set('GET /search/artist', () =>
+      ++calls === 1
+        ? { error: { type: 'Exception', message: 'Quota limit exceeded', code: 4 } }
+        : { data: [{ id: 399, name: 'Radiohead', nb_fan: 0 }] }
+    );
+
+    const artists = await provider.searchArtists('Radiohead', VALID_TOKEN);
+
+    expect(calls).toBe(2);
+    expect(artists.map((artist) => artist.name)).toEqual(['Radiohead']);
+  });
+
+  it('returns no artist for unknown IDs and scales fans to popularity', async () => {
+    routes.set('GET /artist/399', () => ({ id: 399, name: 'Radiohead', nb_fan: 10_000_000 }));
+
+    await expect(provider.getArtist('399', VALID_TOKEN)).resolves.toEqual({
+      id: '399',
+      name: 'Radiohead',
+      popularity: 88,
+      genres: [],
+    });
+    await expect(provider.getArtist('404', VALID_TOKEN)).resolves.toBeNull();
+  });
+
+  it('finds playlists with their creator, skipping those without one', async () => {
+    routes.set('GET /playlist/9001', () => ({ id: 9001, title: 'Mine', creator: { id: 42 } }));
+    routes.set('GET /playlist/9002', () => ({ id: 9002, title: 'Orphan' }));
+
+    await expect(provider.findPlaylist('9001', VALID_TOKEN)).resolves.toEqual({
+      id: '9001',
+      ownerId: '42',
+    });
+    await expect(provider.findPlaylist('9002', VALID_TOKEN)).resolves.toBeNull();
+    await expect(provider.findPlaylist('404', VALID_TOKEN)).resolves.toBeNull();
+  });
+
+  it('creates a private playlist and adds the tracks in chunks', async () => {
+    routes.set('GET /user/me', () => ({ id: 42 }));
+    routes.set('POST /user/42/playlists', () => ({ id: 9001 }));
+    routes.set('POST /playlist/9001', () => true);
+    routes.set('POST /playlist/9001/tracks', () => true);
+    const trackUris = Array.from({ length: 150 }, (_, index) => `deezer:track:${index + 1}`);
+
+    const result = await createPlaylist({
+      artistName: 'Radiohead',
+      year: 2024,
+      trackUris,
+      accessToken: VALID_TOKEN,
+      provider,
+    });
+
+    expect(result).toMatchObject({ playlistId: '9001', tracksAdded: 150, complete: true });
+    const details = requests.find((request) => request.path === '/playlist/9001');
+    expect(details?.query).toMatchObject({ public: 'false', collaborative: 'false' });
+    const added = requests
+      .filter((request) => request.path === '/playlist/9001/tracks')
+      .map((request) => request.query.songs.split(','));
+    expect(added.map((chunk) => chunk.length)).toEqual([100, 50]);
+    expect(added.flat()).toEqual(trackUris.map((uri) => uri.split(':')[2]));
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { mapWithConcurrency, parseRetryAfter, withRetry } from '../../src/http-retry.js';
+
+vi.mock('axios');
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return { response: { status, headers }, message: `Request failed with status ${status}` };
+}
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(axios.isAxiosError).mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for Retry-After before retrying a 429', async () => {
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '2' }))
+      .mockResolvedValueOnce('ok');
+
+    const result = withRetry(request);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('backs off on server errors and gives up after the last attempt', async () => {
+    const request = vi.fn().mockRejectedValue(httpError(503));
+
+    const result = withRetry(request, { maxAttempts: 3, baseDelayMs: 100 });
+    const assertion = expect(result).rejects.toMatchObject({ response: { status: 503 } });
+    await vi.advanceTimersByTimeAsync(300);
+
+    await assertion;
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry client errors or overly long rate limits', async () => {
+    const notFound = vi.fn().mockRejectedValue(httpError(404));
+    await expect(withRetry(notFound)).rejects.toMatchObject({ response: { status: 404 } });
+    expect(notFound).toHaveBeenCalledTimes(1);
+
+    const limited = vi.fn().mockRejectedValue(httpError(429, { 'retry-after': '60' }));
+    await expect(withRetry(limited)).rejects.toMatchObject({ response: { status: 429 } });
+    expect(limited).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and falls back to a default', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(undefined)).toBe(1000);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('limits calls in flight and keeps the input order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (delay) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight--;
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 0]);
+    expect(maxInFlight).toBe(2);
+  });
+});
@@ -0,0 +1,297 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import {
+  exportSingleSetlist,
+  handleCommitPlaylist,
+  handleCreateFestivalPlaylist,
+  handleCreatePlaylist,
+  handleCreateSetlistPlaylist,
+  previewPlaylist,
+} from '../../src/index.js';
+import { ValidationError } from '../../src/error-handler.js';
+
+vi.mock('axios');
+
+const validRequest = {
+  artistName: 'Taylor Swift',
+  year: 2024,
+  trackUris: ['spotify:track:4uLU6hMCjMI75M1A2tKUQC'],
+  accessToken: 'token',
+};
+
+describe('handleCommitPlaylist', () => {
+  it('rejects anything but Spotify track URIs', async () => {
+    await expect(
+      handleCommitPlaylist({ ...validRequest, trackUris: ['spotify:album:4uLU6hMCjMI75M1A2tKUQC'] })
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('rejects an encore position outside the edited track list', async () => {
+    await expect(
+      handleCommitPlaylist({ ...validRequest, encoreStartsAt: 2 })
+    ).rejects.toThrow('encoreStartsAt');
+  });
+
+  it('rejects malformed years, shows and sources from the client', async () => {
+    await expect(
+      handleCommitPlaylist({ ...validRequest, yearsUsed: 2024 as unknown as number[] })
+    ).rejects.toThrow('yearsUsed');
+    await expect(
+      handleCommitPlaylist({ ...validRequest, show: { eventDate: '21-06-2024' } })
+    ).rejects.toThrow('show.eventDate');
+    await expect(
+      handleCommitPlaylist({
+        ...validRequest,
+        source: { showsSampled: 3, dateRange: { from: '2024-06-01', to: 'soon' } },
+      })
+    ).rejects.toThrow('source.dateRange');
+  });
+
+  it('rejects unknown name template placeholders and visibilities', async () => {
+    await expect(
+      handleCommitPlaylist({ ...validRequest, nameTemplate: '{artist} {city}' })
+    ).rejects.toThrow('nameTemplate');
+    await expect(
+      handleCommitPlaylist({ ...validRequest, visibility: 'unlisted' as 'public' })
+    ).rejects.toThrow('visibility');
+  });
+});
+
+describe('previewPlaylist', () => {
+  it('caps the setlist.fm pages fetched per year', async () => {
+    await expect(
+      previewPlaylist({ artistId: 'mbid', maxPages: 500, accessToken: 'token' })
+    ).rejects.toThrow('maxPages');
+  });
+});
+
+describe('handleCreateSetlistPlaylist', () => {
+  beforeEach(() => {
+    process.env.SETLISTFM_API_KEY = 'key';
+    vi.mocked(axios.isAxiosError).mockReturnValue(false);
+    vi.mocked(axios.post)
+      .mockResolvedValueOnce({ data: { id: 'playlist', name: 'Playlist', public: false } })
+      .mockResolvedValueOnce({ data: {} });
+    vi.mocked(axios.get).mockImplementation(async (url, config) => {
+      if (url.includes('setlist.fm')) {
+        return {
+          data: {
+            id: '3bd6a8f0',
+            eventDate: '21-06-2024',
+            artist: { mbid: 'mbid', name: 'Taylor Swift' },
+            venue: { name: 'Wembley Stadium' },
+            sets: { set: [{ song: [{ name: 'Cruel Summer' }, { name: 'Unreleased Song' }] }] },
+          },
+        };
+      }
+      if (url.endsWith('/me')) {
+        return { data: { id: 'user', display_name: 'User' } };
+      }
+      if (config?.params?.type === 'artist') {
+        return {
+          data: { artists: { items: [{ id: 'taylor', name: 'Taylor Swift', popularity: 100 }] } },
+        };
+      }
+      const items = String(config?.params?.q).startsWith('track:Cruel Summer')
+        ? [{
+          uri: 'spotify:track:cruel',
+          name: 'Cruel Summer',
+          artists: [{ id: 'taylor', name: 'Taylor Swift' }],
+          album: { name: 'Lover', album_type: 'album' },
+        }]
+        : [];
+      return { data: { tracks: { items } } };
+    });
+  });
+
+  it('reports every song, the unmatched ones with a reason, and the match rate', async () => {
+    const result = await handleCreateSetlistPlaylist({
+      setlist: '3bd6a8f0',
+      accessToken: 'token',
+    });
+
+    expect(result.songs.map((song) => [song.name, song.playCount, song.trackUri])).toEqual([
+      ['Cruel Summer', 1, 'spotify:track:cruel'],
+      ['Unreleased Song', 1, null],
+    ]);
+    expect(result.songs[0].track?.name).toBe('Cruel Summer');
+    expect(result.unmatched).toEqual([
+      expect.objectContaining({ name: 'Unreleased Song', reason: 'No tracks found on Spotify' }),
+    ]);
+    expect(result.summary).toMatchObject({ showsSampled: 1, matchedCount: 1, matchRate: 0.5 });
+  });
+});
+
+/** setlist.fm artists by MBID, with the songs of each of their 2023 shows */
+const lineup: Record<string, { name: string; shows: string[][] }> = {
+  'mbid-alpha': { name: 'Alpha', shows: [['A1', 'A2', 'A3'], ['A1', 'A2']] },
+  'mbid-beta': { name: 'Beta', shows: [['B1', 'B2'], ['B1', 'B2']] },
+  'mbid-newcomer': { name: 'Newcomer', shows: [] },
+  'mbid-covers': { name: 'Covers', shows: [['A1', 'C1'], ['A1', 'C1']] },
+};
+
+/**
+ * Serves the lineup's artists and setlists from setlist.fm, and one matching
+ * Spotify track for every search
+ */
+function mockLineupApis() {
+  process.env.SETLISTFM_API_KEY = 'key';
+  vi.mocked(axios.isAxiosError).mockReturnValue(false);
+  vi.mocked(axios.post).mockReset();
+  vi.mocked(axios.post)
+    .mockResolvedValueOnce({ data: { id: 'festival', name: 'Playlist', public: false } })
+    .mockResolvedValue({ data: {} });
+  vi.mocked(axios.get).mockImplementation(async (url, config) => {
+    const artistPath = url.match(/setlist\.fm\/rest\/1\.0\/artist\/([^/]+)(\/setlists)?$/);
+    if (artistPath) {
+      const artist = lineup[artistPath[1]];
+      if (!artistPath[2]) {
+        return { data: { mbid: artistPath[1], name: artist.name, sortName: artist.name } };
+      }
+      return {
+        data: {
+          itemsPerPage: 20,
+          page: 1,
+          total: artist.shows.length,
+          setlist: artist.shows.map((songs, index) => ({
+            id: `${artistPath[1]}-${index}`,
+            eventDate: `0${index + 1}-07-2023`,
+            sets: { set: [{ song: songs.map((name) => ({ name })) }] },
+          })),
+        },
+      };
+    }
+    if (url.endsWith('/me')) {
+      return { data: { id: 'user', display_name: 'User' } };
+    }
+    if (config?.params?.type === 'artist') {
+      const name = String(config.params.q).replace('artist:', '');
+      return { data: { artists: { items: [{ id: name.toLowerCase(), name, popularity: 50 }] } } };
+    }
+    const [, song, artist] = String(config?.params?.q).match(/^track:(.+) artist:(.+)$/) ?? [];
+    return {
+      data: {
+        tracks: {
+          items: [{
+            uri: `spotify:track:${song}`,
+            name: song,
+            artists: [{ id: artist.toLowerCase(), name: artist }],
+            album: { name: 'Album', album_type: 'album' },
+          }],
+        },
+      },
+    };
+  });
+}
+
+describe('handleCreatePlaylist', () => {
+  beforeEach(mockLineupApis);
+
+  it('derives the artist name from the MBID', async () => {
+    const result = await handleCreatePlaylist({
+      artistId: 'mbid-beta',
+      year: 2023,
+      accessToken: 'token',
+    });
+
+    expect(result.artistName).toBe('Beta');
+    expect(result.providerArtist).toEqual({ id: 'beta', name: 'Beta' });
+    const [, playlistBody] = vi.mocked(axios.post).mock.calls[0];
+    expect(playlistBody).toMatchObject({ name: 'Beta — Average Setlist 2023' });
+  });
+});
+
+describe('handleCreateFestivalPlaylist', () => {
+  beforeEach(mockLineupApis);
+
+  it('interleaves the capped setlists of the lineup into one playlist', async () => {
+    const result = await handleCreateFestivalPlaylist({
+      festivalName: 'Summer Fest',
+      artists: [
+        { artistId: 'mbid-alpha', year: 2023 },
+        { artistId: 'mbid-beta', year: 2023 },
+      ],
+      songsPerArtist: 2,
+      order: 'interleaved',
+      accessToken: 'token',
+    });
+
+    const [, playlistBody] = vi.mocked(axios.post).mock.calls[0];
+    expect(playlistBody).toMatchObject({ name: 'Summer Fest — Festival Setlists 2023' });
+    const [, tracksBody] = vi.mocked(axios.post).mock.calls[1];
+    expect((tracksBody as { uris: string[] }).uris).toEqual([
+      'spotify:track:A1',
+      'spotify:track:B1',
+      'spotify:track:A2',
+      'spotify:track:B2',
+    ]);
+    expect(result.artists).toMatchObject([
+      { artistName: 'Alpha', tracksIncluded: 2 },
+      { artistName: 'Beta', tracksIncluded: 2 },
+    ]);
+    expect(result.summary).toMatchObject({ showsSampled: 4, songCount: 4, matchRate: 1 });
+  });
+
+  it('skips artists without setlists and adds shared tracks once', async () => {
+    const result = await handleCreateFestivalPlaylist({
+      artists: [
+        { artistId: 'mbid-alpha', year: 2023 },
+        { artistId: 'mbid-newcomer', year: 2023 },
+        { artistId: 'mbid-covers', year: 2023 },
+      ],
+      songsPerArtist: 2,
+      accessToken: 'token',
+    });
+
+    const [, tracksBody] = vi.mocked(axios.post).mock.calls[1];
+    expect((tracksBody as { uris: string[] }).uris).toEqual([
+      'spotify:track:A1',
+      'spotify:track:A2',
+      'spotify:track:C1',
+    ]);
+    expect(result.tracksAdded).toBe(3);
+    expect(result.artists).toMatchObject([
+      { artistId: 'mbid-alpha', status: 'included', tracksIncluded: 2 },
+      { artistId: 'mbid-newcomer', status: 'skipped' },
+      { artistId: 'mbid-covers', status: 'included', tracksIncluded: 1 },
+    ]);
+  });
+
+  it('rejects an empty lineup', async () => {
+    await expect(
+      handleCreateFestivalPlaylist({ artists: [], accessToken: 'token' })
+    ).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('exportSingleSetlist', () => {
+  beforeEach(() => {
+    process.env.SETLISTFM_API_KEY = 'key';
+    vi.mocked(axios.get).mockReset();
+    vi.mocked(axios.get).mockResolvedValue({
+      data: {
+        id: '63de4613',
+        eventDate: '21-06-2024',
+        artist: { mbid: 'mbid', name: 'Taylor Swift' },
+        venue: { name: 'Wembley Stadium' },
+        sets: {
+          set: [
+            { song: [{ name: 'Cruel Summer' }] },
+            { encore: 1, song: [{ name: 'Karma' }] },
+          ],
+        },
+      },
+    });
+  });
+
+  it('exports the setlist without a Spotify login when matches are not requested', async () => {
+    const result = await exportSingleSetlist({ setlist: '63de4613', accessToken: '' }, false);
+
+    expect(vi.mocked(axios.get).mock.calls.every(([url]) => url.includes('setlist.fm'))).toBe(true);
+    expect(result).toMatchObject({ artistName: 'Taylor Swift', year: 2024, matched: false });
+    expect(result.songs).toEqual([
+      { position: 1, name: 'Cruel Summer', playCount: 1, encore: 0 },
+      { position: 2, name: 'Karma', playCount: 1, encore: 1 },
+    ]);
+  });
+});
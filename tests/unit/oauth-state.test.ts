@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { oauthStateCookie, verifyOAuthState } from '../../src/oauth-state.js';
+import { codeChallengeFor, generateAuthUrl } from '../../src/oauth.js';
+import { AuthenticationError, formatErrorResponse } from '../../src/error-handler.js';
+
+const secret = 'a-long-random-session-secret';
+
+function headersFor(state: string, expiresAt = Date.now() + 60_000, signingSecret = secret) {
+  const setCookie = oauthStateCookie({ state, codeVerifier: 'verifier', expiresAt }, signingSecret);
+  return { cookie: setCookie.split(';')[0] };
+}
+
+function codeOf(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(AuthenticationError);
+    return (error as AuthenticationError).code;
+  }
+  return undefined;
+}
+
+describe('verifyOAuthState', () => {
+  it('returns the code verifier when the state matches the cookie', () => {
+    expect(verifyOAuthState(headersFor('abc'), 'abc', secret).codeVerifier).toBe('verifier');
+  });
+
+  it('reports why a state is rejected', () => {
+    expect(codeOf(() => verifyOAuthState({}, 'abc', secret))).toBe('OAUTH_STATE_MISSING');
+    expect(codeOf(() => verifyOAuthState(headersFor('abc'), undefined, secret))).toBe(
+      'OAUTH_STATE_MISSING'
+    );
+    expect(codeOf(() => verifyOAuthState(headersFor('abc'), 'xyz', secret))).toBe(
+      'OAUTH_STATE_MISMATCH'
+    );
+    expect(codeOf(() => verifyOAuthState(headersFor('abc', Date.now() - 1), 'abc', secret))).toBe(
+      'OAUTH_STATE_EXPIRED'
+    );
+    expect(
+      codeOf(() => verifyOAuthState(headersFor('abc', undefined, 'other-secret'), 'abc', secret))
+    ).toBe('OAUTH_STATE_INVALID');
+  });
+
+  it('uses the reason as the error code of the response', () => {
+    const error = new AuthenticationError('mismatch', undefined, 'OAUTH_STATE_MISMATCH');
+
+    expect(formatErrorResponse(error).error.code).toBe('OAUTH_STATE_MISMATCH');
+  });
+});
+
+describe('PKCE', () => {
+  it('derives the S256 challenge of RFC 7636', () => {
+    expect(codeChallengeFor('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe(
+      'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+    );
+  });
+
+  it('adds the challenge to the authorization URL', () => {
+    const url = new URL(
+      generateAuthUrl(
+        { clientId: 'client', clientSecret: '', redirectUri: 'https://example.com/callback', scopes: [] },
+        'state',
+        'challenge'
+      )
+    );
+
+    expect(url.searchParams.get('code_challenge')).toBe('challenge');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+  });
+});
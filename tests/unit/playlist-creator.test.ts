@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { createPlaylist, renderNameTemplate } from '../../src/playlist-creator.js';
+
+vi.mock('axios');
+
+const mockedPost = vi.mocked(axios.post);
+
+const trackUris = Array.from({ length: 250 }, (_, index) => `spotify:track:${index}`);
+
+function params(uris: string[]) {
+  return { artistName: 'Artist', year: 2024, trackUris: uris, accessToken: 'token' };
+}
+
+describe('createPlaylist', () => {
+  beforeEach(() => {
+    mockedPost.mockReset();
+    vi.mocked(axios.isAxiosError).mockReturnValue(true);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(axios.get).mockResolvedValue({ data: { id: 'user', display_name: 'User' } });
+    mockedPost.mockResolvedValueOnce({ data: { id: 'playlist', name: 'Playlist', public: false } });
+  });
+
+  it('adds large track lists in ordered chunks of 100', async () => {
+    mockedPost.mockResolvedValue({ data: {} });
+
+    const result = await createPlaylist(params(trackUris));
+
+    const chunks = mockedPost.mock.calls.slice(1).map(([, body]) => (body as { uris: string[] }).uris);
+    expect(chunks.map((chunk) => chunk.length)).toEqual([100, 100, 50]);
+    expect(chunks.flat()).toEqual(trackUris);
+    expect(result).toMatchObject({ tracksAdded: 250, complete: true });
+  });
+
+  it('reports the tracks that did not make it when a later chunk fails', async () => {
+    mockedPost
+      .mockResolvedValueOnce({ data: {} })
+      .mockRejectedValue({ response: { status: 400 }, message: 'Bad Request' });
+
+    const result = await createPlaylist(params(trackUris));
+
+    expect(result.tracksAdded).toBe(100);
+    expect(result.complete).toBe(false);
+    expect(result.notAddedTrackUris).toEqual(trackUris.slice(100));
+  });
+
+  it('applies the name template, visibility and generated description', async () => {
+    mockedPost.mockResolvedValue({ data: {} });
+
+    await createPlaylist({
+      ...params(trackUris.slice(0, 3)),
+      nameTemplate: '{artist} on {tour} ({shows} shows)',
+      visibility: 'collaborative',
+      source: {
+        showsSampled: 12,
+        dateRange: { from: '2024-03-01', to: '2024-11-20' },
+        tourName: 'World Tour',
+      },
+    });
+
+    expect(mockedPost.mock.calls[0][1]).toEqual({
+      name: 'Artist on World Tour (12 shows)',
+      public: false,
+      collaborative: true,
+      description:
+        'Average setlist for Artist in 2024 on World Tour, from 12 shows between 2024-03-01 ' +
+        'and 2024-11-20. Setlist data from setlist.fm',
+    });
+  });
+
+  it('returns the created playlist even when not a single track could be added', async () => {
+    mockedPost.mockRejectedValue({ response: { status: 500 }, message: 'Server Error' });
+
+    const result = await createPlaylist(params(trackUris));
+
+    // The failed add is not retried, since Spotify may have applied it
+    expect(mockedPost).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ playlistId: 'playlist', tracksAdded: 0, complete: false });
+    expect(result.notAddedTrackUris).toEqual(trackUris);
+  });
+});
+
+describe('renderNameTemplate', () => {
+  it('drops placeholders without a value and the separators they leave behind', () => {
+    expect(renderNameTemplate('{artist} — {tour} [{venue}]', { artist: 'Artist' })).toBe('Artist');
+    expect(renderNameTemplate('{year}: {artist}', { artist: 'Artist', year: '2024' })).toBe(
+      '2024: Artist'
+    );
+  });
+});
+
+describe('createPlaylist in sync mode', () => {
+  const previous = ['spotify:track:a', 'spotify:track:b', 'spotify:track:c'];
+  const next = ['spotify:track:c', 'spotify:track:a', 'spotify:track:d'];
+
+  beforeEach(() => {
+    mockedPost.mockReset();
+    vi.mocked(axios.put).mockReset();
+    vi.mocked(axios.put).mockResolvedValue({ data: {} });
+    vi.mocked(axios.isAxiosError).mockReturnValue(true);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(axios.get).mockImplementation(async (url: string) => {
+      if (url.endsWith('/v1/me')) {
+        return { data: { id: 'user', display_name: 'User' } };
+      }
+      if (url.includes('/v1/me/playlists')) {
+        return {
+          data: {
+            items: [
+              { id: 'other', name: 'Artist — Average Setlist 2024', owner: { id: 'someone' } },
+              { id: 'existing', name: 'Artist — Average Setlist 2024', owner: { id: 'user' } },
+            ],
+            next: null,
+          },
+        };
+      }
+      if (url.endsWith('/playlists/followed')) {
+        return { data: { id: 'followed', owner: { id: 'someone' } } };
+      }
+      if (url.includes('/playlists/existing/tracks')) {
+        return { data: { items: previous.map((uri) => ({ track: { uri } })), next: null } };
+      }
+      throw { response: { status: 404 }, message: 'Not Found' };
+    });
+  });
+
+  it('replaces the items of the playlist found by name and reports the changes', async () => {
+    const result = await createPlaylist({ ...params(next), sync: {} });
+
+    expect(mockedPost).not.toHaveBeenCalled();
+    const [replaceUrl, replaceBody] = vi.mocked(axios.put).mock.calls[0];
+    expect(replaceUrl).toContain('/playlists/existing/tracks');
+    expect(replaceBody).toEqual({ uris: next });
+    const [detailsUrl, details] = vi.mocked(axios.put).mock.calls[1];
+    expect(detailsUrl).toMatch(/\/playlists\/existing$/);
+    expect((details as { description: string }).description).toMatch(/last updated \d{4}-\d{2}-\d{2} \d{2}:\d{2} UTC/);
+    expect(result.playlistId).toBe('existing');
+    expect(result.sync).toMatchObject({
+      created: false,
+      added: ['spotify:track:d'],
+      removed: ['spotify:track:b'],
+    });
+  });
+
+  it('falls back to the name when the stored playlist no longer exists', async () => {
+    const result = await createPlaylist({ ...params(next), sync: { playlistId: 'deleted' } });
+
+    expect(result.playlistId).toBe('existing');
+  });
+
+  it('does not update a stored playlist the user does not own', async () => {
+    const result = await createPlaylist({ ...params(next), sync: { playlistId: 'followed' } });
+
+    expect(result.playlistId).toBe('existing');
+    expect(vi.mocked(axios.put).mock.calls.map(([url]) => url)).not.toContainEqual(
+      expect.stringContaining('/playlists/followed')
+    );
+  });
+
+  it('creates a playlist when there is none to update', async () => {
+    vi.mocked(axios.get).mockImplementation(async (url: string) =>
+      url.endsWith('/v1/me')
+        ? { data: { id: 'user', display_name: 'User' } }
+        : { data: { items: [], next: null } }
+    );
+    mockedPost
+      .mockResolvedValueOnce({ data: { id: 'new', name: 'Playlist', public: false } })
+      .mockResolvedValue({ data: {} });
+
+    const result = await createPlaylist({ ...params(next), sync: {} });
+
+    expect(result.playlistId).toBe('new');
+    expect(result.sync).toMatchObject({ created: true, added: next, removed: [] });
+  });
+});
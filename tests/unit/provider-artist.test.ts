@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { getProviderArtist, resolveProviderArtist } from '../../src/provider-artist.js';
+
+vi.mock('axios');
+
+const mockedGet = vi.mocked(axios.get);
+
+function artist(id: string, name: string, popularity: number) {
+  return { id, name, popularity, genres: [] };
+}
+
+function searchResponse(...items: ReturnType<typeof artist>[]) {
+  return { data: { artists: { items } } };
+}
+
+describe('resolveProviderArtist', () => {
+  beforeEach(() => {
+    mockedGet.mockReset();
+    vi.mocked(axios.isAxiosError).mockReturnValue(false);
+  });
+
+  it('picks the clearly most popular artist with the exact name', async () => {
+    mockedGet.mockResolvedValueOnce(
+      searchResponse(
+        artist('tribute', 'Queen Tribute Band', 40),
+        artist('queen', 'Queen', 85),
+        artist('other', 'Queen', 12)
+      )
+    );
+
+    const resolution = await resolveProviderArtist('Queen', 'token');
+
+    expect(resolution).toMatchObject({ status: 'resolved', artist: { id: 'queen' } });
+  });
+
+  it('returns the candidates when same-named artists are similarly popular', async () => {
+    mockedGet.mockResolvedValueOnce(
+      searchResponse(artist('nirvana-us', 'Nirvana', 80), artist('nirvana-uk', 'Nirvana', 70))
+    );
+
+    const resolution = await resolveProviderArtist('Nirvana', 'token');
+
+    expect(resolution.status).toBe('ambiguous');
+    if (resolution.status === 'ambiguous') {
+      expect(resolution.candidates.map((candidate) => candidate.id)).toEqual([
+        'nirvana-us',
+        'nirvana-uk',
+      ]);
+    }
+  });
+
+  it('reports not-found when no artist has the name', async () => {
+    mockedGet.mockResolvedValueOnce(searchResponse(artist('x', 'Queens of the Stone Age', 75)));
+
+    expect(await resolveProviderArtist('Queen', 'token')).toEqual({ status: 'not-found' });
+  });
+});
+
+describe('getProviderArtist', () => {
+  beforeEach(() => {
+    mockedGet.mockReset();
+  });
+
+  it('returns null for unknown IDs', async () => {
+    vi.mocked(axios.isAxiosError).mockReturnValue(true);
+    mockedGet.mockRejectedValueOnce({ response: { status: 404 }, message: 'Not found' });
+
+    expect(await getProviderArtist('unknown', 'token')).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  authenticateRequest,
+  parseCookies,
+  readSession,
+  sealSession,
+  sessionCookie,
+  unsealSession,
+  withSessionCookie,
+} from '../../src/session.js';
+import { EnvironmentConfig } from '../../src/env-validator.js';
+import { AuthenticationError } from '../../src/error-handler.js';
+
+const secret = 'a-long-random-session-secret';
+
+const env: EnvironmentConfig = {
+  SPOTIFY_CLIENT_ID: 'client',
+  SPOTIFY_CLIENT_SECRET: 'client-secret',
+  SPOTIFY_REDIRECT_URI: 'https://example.com/callback',
+  SETLISTFM_API_KEY: 'key',
+  SESSION_SECRET: secret,
+};
+
+function cookieHeader(setCookie: string): string {
+  return setCookie.split(';')[0];
+}
+
+describe('session cookie', () => {
+  const session = { accessToken: 'access', refreshToken: 'refresh', expiresAt: 1_700_000_000_000 };
+
+  it('round-trips a session without exposing the tokens', () => {
+    const sealed = sealSession(session, secret);
+
+    expect(sealed).not.toContain('access');
+    expect(unsealSession(sealed, secret)).toEqual(session);
+  });
+
+  it('rejects tampered values and values sealed under another secret', () => {
+    const sealed = sealSession(session, secret);
+    const tampered = `${sealed.slice(0, -2)}${sealed.endsWith('AA') ? 'BB' : 'AA'}`;
+
+    expect(unsealSession(tampered, secret)).toBeNull();
+    expect(unsealSession(sealed, 'another-secret')).toBeNull();
+    expect(unsealSession('garbage', secret)).toBeNull();
+  });
+
+  it('is httpOnly and read back from the Cookie header', () => {
+    const setCookie = sessionCookie(session, secret);
+
+    expect(setCookie).toMatch(/; HttpOnly;/);
+    expect(setCookie).toMatch(/; Secure;/);
+    expect(readSession({ cookie: `theme=dark; ${cookieHeader(setCookie)}` }, secret)).toEqual(
+      session
+    );
+  });
+
+  it('parses cookies whose values contain "="', () => {
+    expect(parseCookies('a=1; b=x=y')).toEqual({ a: '1', b: 'x=y' });
+  });
+});
+
+describe('authenticateRequest', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uses the session access token while it is valid', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const session = { accessToken: 'access', refreshToken: 'refresh', expiresAt: Date.now() + 3_600_000 };
+
+    const auth = await authenticateRequest(
+      { headers: { cookie: cookieHeader(sessionCookie(session, secret)) } },
+      env
+    );
+
+    expect(auth).toEqual({ accessToken: 'access' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('refreshes an expired access token and stores the new session', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ access_token: 'renewed', token_type: 'Bearer', expires_in: 3600 }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const session = { accessToken: 'expired', refreshToken: 'refresh', expiresAt: Date.now() - 1000 };
+
+    const auth = await authenticateRequest(
+      { headers: { cookie: cookieHeader(sessionCookie(session, secret)) } },
+      env
+    );
+
+    expect(auth.accessToken).toBe('renewed');
+    expect(String(fetchMock.mock.calls[0][1].body)).toContain('grant_type=refresh_token');
+    // Spotify sent no new refresh token, so the old one is kept
+    expect(readSession({ cookie: cookieHeader(auth.setCookie!) }, secret)).toMatchObject({
+      accessToken: 'renewed',
+      refreshToken: 'refresh',
+    });
+  });
+
+  it('fails when an expired session has no refresh token', async () => {
+    const session = { accessToken: 'expired', expiresAt: Date.now() - 1000 };
+
+    await expect(
+      authenticateRequest({ headers: { cookie: cookieHeader(sessionCookie(session, secret)) } }, env)
+    ).rejects.toThrow(AuthenticationError);
+  });
+
+  it('rejects cross-site requests that change data with the session', async () => {
+    const session = { accessToken: 'access', refreshToken: 'refresh', expiresAt: Date.now() + 3_600_000 };
+    const cookie = cookieHeader(sessionCookie(session, secret));
+
+    await expect(
+      authenticateRequest(
+        { httpMethod: 'POST', headers: { cookie, 'sec-fetch-site': 'cross-site' } },
+        env
+      )
+    ).rejects.toMatchObject({ code: 'CROSS_SITE_REQUEST' });
+    await expect(
+      authenticateRequest(
+        { httpMethod: 'POST', headers: { cookie, origin: 'https://evil.example', host: 'app.example' } },
+        env
+      )
+    ).rejects.toThrow(AuthenticationError);
+    await expect(
+      authenticateRequest(
+        { httpMethod: 'POST', headers: { cookie, 'sec-fetch-site': 'same-origin' } },
+        env
+      )
+    ).resolves.toEqual({ accessToken: 'access' });
+  });
+
+  it('accepts a bearer token from API clients without a session', async () => {
+    const auth = await authenticateRequest({ headers: { authorization: 'Bearer token' } }, env);
+
+    expect(auth).toEqual({ accessToken: 'token' });
+  });
+
+  it('takes the bearer token over the Spotify session for other providers', async () => {
+    const session = { accessToken: 'spotify', refreshToken: 'refresh', expiresAt: Date.now() + 3_600_000 };
+
+    const auth = await authenticateRequest(
+      {
+        headers: {
+          cookie: cookieHeader(sessionCookie(session, secret)),
+          authorization: 'Bearer deezer',
+        },
+      },
+      env,
+      'deezer'
+    );
+
+    expect(auth).toEqual({ accessToken: 'deezer' });
+  });
+
+  it('rejects unknown providers before looking for a token', async () => {
+    await expect(
+      authenticateRequest({ headers: {} }, env, 'tidal')
+    ).rejects.toMatchObject({ details: { field: 'provider', value: 'tidal' } });
+  });
+});
+
+describe('withSessionCookie', () => {
+  it('adds the refreshed cookie to the response headers', () => {
+    const response = { statusCode: 200, headers: { 'Content-Type': 'application/json' }, body: '{}' };
+
+    expect(withSessionCookie(response, 'session=abc')).toEqual({
+      ...response,
+      headers: { 'Content-Type': 'application/json', 'Set-Cookie': 'session=abc' },
+    });
+    expect(withSessionCookie(response, undefined)).toBe(response);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { computeAverageSetlist, typicalShowLength } from '../../src/setlist-averager.js';
+import { PlayedSong } from '../../src/setlist-fetcher.js';
+
+function show(...names: string[]): PlayedSong[] {
+  return names.map((name) => ({ name, encore: 0 }));
+}
+
+describe('typicalShowLength', () => {
+  it('returns the median show length', () => {
+    expect(typicalShowLength([3, 10, 4])).toBe(4);
+    expect(typicalShowLength([3, 4, 6, 10])).toBe(5);
+    expect(typicalShowLength([])).toBe(0);
+  });
+});
+
+describe('computeAverageSetlist', () => {
+  it('emits songs in concert order rather than by play count', () => {
+    const songs = computeAverageSetlist([
+      show('Opener', 'Middle', 'Hit'),
+      show('Opener', 'Hit', 'Closer'),
+      show('Middle', 'Hit', 'Closer'),
+    ]);
+
+    expect(songs.map((song) => song.name)).toEqual(['Opener', 'Middle', 'Hit']);
+    expect(songs.map((song) => song.position)).toEqual([1, 2, 3]);
+    expect(songs.find((song) => song.name === 'Hit')?.playCount).toBe(3);
+  });
+
+  it('only keeps as many songs as a typical show', () => {
+    const songs = computeAverageSetlist([
+      show('A', 'B'),
+      show('A', 'C'),
+      show('A', 'B', 'D'),
+    ]);
+
+    expect(songs.map((song) => song.name)).toEqual(['A', 'B']);
+  });
+
+  it('places encore songs after the main set', () => {
+    const encore = (name: string): PlayedSong => ({ name, encore: 1, setName: 'Encore' });
+    const songs = computeAverageSetlist([
+      [...show('A', 'B'), encore('Finale')],
+      [encore('Finale'), ...show('A', 'B')],
+      [...show('B', 'A'), encore('Finale')],
+    ]);
+
+    expect(songs.map((song) => song.name)).toEqual(['A', 'B', 'Finale']);
+    expect(songs[2]).toMatchObject({ encore: 1, setName: 'Encore', position: 3 });
+    expect(songs[0].encore).toBe(0);
+  });
+
+  it('ignores shows without songs', () => {
+    expect(computeAverageSetlist([[], []])).toEqual([]);
+  });
+});
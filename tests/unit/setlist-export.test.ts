@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { isExportFormat, renderExport, SetlistExport } from '../../src/setlist-export.js';
+
+const data: SetlistExport = {
+  artistName: 'Simon & Garfunkel',
+  year: 2024,
+  yearsUsed: [2024],
+  showsSampled: 10,
+  totalShows: 12,
+  source: { showsSampled: 10 },
+  matched: true,
+  songs: [
+    {
+      position: 1,
+      name: 'Mrs. Robinson',
+      playCount: 10,
+      encore: 0,
+      setName: 'Set 1, "electric"',
+      status: 'matched',
+      trackUri: 'spotify:track:0iOZM63lendWRTTeKhZBSC',
+      track: { name: 'Mrs. Robinson', artists: ['Simon & Garfunkel'], album: 'Bookends' },
+      confidence: 0.95,
+    },
+    {
+      position: 2,
+      name: 'Unreleased <Jam>',
+      playCount: 4,
+      encore: 1,
+      status: 'no-match',
+      trackUri: null,
+    },
+  ],
+};
+
+describe('renderExport', () => {
+  it('writes one CSV row per song, quoting fields with commas and quotes', () => {
+    const { body, contentType, filename } = renderExport(data, 'csv');
+    const lines = body.trimEnd().split('\r\n');
+
+    expect(contentType).toBe('text/csv; charset=utf-8');
+    expect(filename).toBe('simon-garfunkel-average-setlist-2024.csv');
+    expect(lines[0]).toBe(
+      'position,song,play_count,set,encore,status,track_uri,track_name,track_artists,album,confidence'
+    );
+    expect(lines[1]).toBe(
+      '1,Mrs. Robinson,10,"Set 1, ""electric""",0,matched,spotify:track:0iOZM63lendWRTTeKhZBSC,Mrs. Robinson,Simon & Garfunkel,Bookends,0.95'
+    );
+    expect(lines[2]).toBe('2,Unreleased <Jam>,4,,1,no-match,,,,,');
+  });
+
+  it('keeps spreadsheets from evaluating song names as formulas', () => {
+    const song = { position: 1, name: '=HYPERLINK("http://x")', playCount: 1, encore: 0 };
+    const { body } = renderExport({ ...data, matched: false, songs: [song] }, 'csv');
+
+    expect(body.split('\r\n')[1]).toBe('1,"\'=HYPERLINK(""http://x"")",1,,0,,,,,,');
+  });
+
+  it('names a single show by its date when it has no venue', () => {
+    const show = { eventDate: '2024-06-01' };
+    const { filename, body, contentType } = renderExport({ ...data, show }, 'm3u');
+
+    expect(filename).toBe('simon-garfunkel-2024-06-01.m3u');
+    expect(body).toContain('#PLAYLIST:Simon & Garfunkel — 2024-06-01');
+    expect(contentType).toBe('audio/x-mpegurl; charset=utf-8');
+  });
+
+  it('lists matched tracks in M3U and keeps unmatched songs as comments', () => {
+    const { body } = renderExport(data, 'm3u8');
+
+    expect(body.split('\n')).toEqual([
+      '#EXTM3U',
+      '#PLAYLIST:Simon & Garfunkel — Average Setlist 2024',
+      '#EXTINF:-1,Simon & Garfunkel - Mrs. Robinson',
+      'https://open.spotify.com/track/0iOZM63lendWRTTeKhZBSC',
+      '# Simon & Garfunkel - Unreleased <Jam>',
+      '',
+    ]);
+  });
+
+  it('escapes XSPF text and only gives matched tracks a location', () => {
+    const { body } = renderExport(data, 'xspf');
+
+    expect(body).toContain('<title>Simon &amp; Garfunkel — Average Setlist 2024</title>');
+    expect(body).toContain('<identifier>spotify:track:0iOZM63lendWRTTeKhZBSC</identifier>');
+    expect(body).toContain('<title>Unreleased &lt;Jam&gt;</title>');
+    expect(body).toContain('<annotation>Played at 4 of 10 shows, encore 1</annotation>');
+    expect(body.match(/<location>/g)).toHaveLength(1);
+  });
+
+  it('returns the export as JSON', () => {
+    expect(JSON.parse(renderExport(data, 'json').body)).toEqual(data);
+  });
+});
+
+describe('isExportFormat', () => {
+  it('accepts only the supported formats', () => {
+    expect(isExportFormat('xspf')).toBe(true);
+    expect(isExportFormat('pls')).toBe(false);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { DataNotFoundError } from '../../src/error-handler.js';
+import { getAverageSetlist, getSetlist, parseSetlistId } from '../../src/setlist-fetcher.js';
+import { createMemoryStore } from '../../src/cache-store.js';
+import { SETLISTFM_CACHE_NAME } from '../../src/setlistfm-client.js';
+
+vi.mock('axios');
+
+const mockedGet = vi.mocked(axios.get);
+
+function setlist(...songs: string[]) {
+  return { sets: { set: [{ song: songs.map((name) => ({ name })) }] } };
+}
+
+function page(pageNumber: number, total: number, setlists: unknown[]) {
+  return {
+    data: { itemsPerPage: 2, page: pageNumber, total, setlist: setlists },
+  };
+}
+
+describe('getAverageSetlist', () => {
+  beforeEach(async () => {
+    mockedGet.mockReset();
+    await createMemoryStore(SETLISTFM_CACHE_NAME).deletePrefix('');
+    vi.mocked(axios.isAxiosError).mockReturnValue(false);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('walks every result page and reports the shows sampled', async () => {
+    mockedGet
+      .mockResolvedValueOnce(page(1, 5, [setlist('A', 'B'), setlist('A')]))
+      .mockResolvedValueOnce(page(2, 5, [setlist('B'), setlist('A', 'C')]))
+      .mockResolvedValueOnce(page(3, 5, [setlist('A')]));
+
+    const result = await getAverageSetlist({ artistId: 'abc', year: 2024 }, 'key');
+
+    expect(mockedGet).toHaveBeenCalledTimes(3);
+    expect(mockedGet.mock.calls[2][1]?.params).toEqual({ year: 2024, p: 3 });
+    expect(result.showsSampled).toBe(5);
+    expect(result.totalShows).toBe(5);
+    expect(result.year).toBe(2024);
+    expect(result.songs.map((song) => song.name)).toEqual(['A']);
+  });
+
+  it('stops at the configured page cap', async () => {
+    mockedGet
+      .mockResolvedValueOnce(page(1, 6, [setlist('A'), setlist('B')]))
+      .mockResolvedValueOnce(page(2, 6, [setlist('A'), setlist('C')]));
+
+    const result = await getAverageSetlist(
+      { artistId: 'abc', year: 2024, maxPages: 2 },
+      'key'
+    );
+
+    expect(mockedGet).toHaveBeenCalledTimes(2);
+    expect(result.showsSampled).toBe(4);
+    expect(result.totalShows).toBe(6);
+  });
+});
+
+describe('getAverageSetlist year policies', () => {
+  beforeEach(async () => {
+    mockedGet.mockReset();
+    await createMemoryStore(SETLISTFM_CACHE_NAME).deletePrefix('');
+    vi.mocked(axios.isAxiosError).mockReturnValue(false);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('walks back until a year with data is found', async () => {
+    mockedGet
+      .mockResolvedValueOnce(page(1, 0, []))
+      .mockResolvedValueOnce(page(1, 0, []))
+      .mockResolvedValueOnce(page(1, 1, [setlist('A')]));
+
+    const result = await getAverageSetlist(
+      { artistId: 'abc', year: 2024, yearPolicy: { mode: 'fallback', maxYearsBack: 3 } },
+      'key'
+    );
+
+    expect(result.year).toBe(2022);
+    expect(result.yearsUsed).toEqual([2022]);
+  });
+
+  it('throws DataNotFoundError once the fallback years run out', async () => {
+    mockedGet.mockResolvedValue(page(1, 0, []));
+
+    await expect(
+      getAverageSetlist(
+        { artistId: 'abc', year: 2024, yearPolicy: { mode: 'fallback', maxYearsBack: 2 } },
+        'key'
+      )
+    ).rejects.toBeInstanceOf(DataNotFoundError);
+    expect(mockedGet).toHaveBeenCalledTimes(3);
+  });
+
+  it('merges a span of years with per-year weights', async () => {
+    mockedGet
+      .mockResolvedValueOnce(page(1, 2, [setlist('Old'), setlist('Old')]))
+      .mockResolvedValueOnce(page(1, 0, []))
+      .mockResolvedValueOnce(page(1, 1, [setlist('New')]));
+
+    const result = await getAverageSetlist(
+      {
+        artistId: 'abc',
+        yearPolicy: { mode: 'merge', fromYear: 2022, toYear: 2024, yearWeights: { 2024: 5 } },
+      },
+      'key'
+    );
+
+    expect(result.yearsUsed).toEqual([2022, 2024]);
+    expect(result.year).toBe(2024);
+    expect(result.showsSampled).toBe(3);
+    expect(result.songs).toEqual([
+      expect.objectContaining({ name: 'New', playCount: 1 }),
+    ]);
+  });
+
+  it('fetches the years a date range covers when no year is given', async () => {
+    mockedGet
+      .mockResolvedValueOnce(page(1, 2, [
+        { ...setlist('Summer'), eventDate: '01-07-2023' },
+        { ...setlist('Winter'), eventDate: '20-11-2023' },
+      ]))
+      .mockResolvedValueOnce(page(1, 1, [{ ...setlist('Winter'), eventDate: '14-02-2024' }]));
+
+    const result = await getAverageSetlist(
+      { artistId: 'abc', filters: { dateFrom: '2023-11-01', dateTo: '2024-02-29' } },
+      'key'
+    );
+
+    expect(mockedGet.mock.calls.map(([, config]) => config?.params?.year)).toEqual([2023, 2024]);
+    expect(result.yearsUsed).toEqual([2023, 2024]);
+    expect(result.songs).toEqual([
+      expect.objectContaining({ name: 'Winter', playCount: 2 }),
+    ]);
+  });
+});
+
+describe('parseSetlistId', () => {
+  it('accepts bare setlist IDs', () => {
+    expect(parseSetlistId('63de4613')).toBe('63de4613');
+  });
+
+  it('extracts the ID from setlist.fm URLs', () => {
+    expect(
+      parseSetlistId(
+        'https://www.setlist.fm/setlist/taylor-swift/2024/wembley-stadium-london-england-3bd6a8f0.html'
+      )
+    ).toBe('3bd6a8f0');
+  });
+
+  it('rejects anything else', () => {
+    expect(parseSetlistId('https://example.com/setlist-3bd6a8f0.html')).toBeNull();
+    expect(parseSetlistId('not an id')).toBeNull();
+  });
+});
+
+describe('getSetlist', () => {
+  beforeEach(async () => {
+    mockedGet.mockReset();
+    await createMemoryStore(SETLISTFM_CACHE_NAME).deletePrefix('');
+    vi.mocked(axios.isAxiosError).mockReturnValue(false);
+  });
+
+  it('keeps the exact concert order including encores', async () => {
+    mockedGet.mockResolvedValueOnce({
+      data: {
+        id: '3bd6a8f0',
+        eventDate: '21-06-2024',
+        artist: { mbid: 'mbid', name: 'Artist' },
+        venue: { name: 'Wembley Stadium', city: { name: 'London', country: { code: 'GB' } } },
+        sets: {
+          set: [
+            { song: [{ name: 'Intro', tape: true }, { name: 'B' }, { name: 'A' }] },
+            { encore: 1, song: [{ name: 'C' }] },
+          ],
+        },
+      },
+    });
+
+    const result = await getSetlist('3bd6a8f0', 'key');
+
+    expect(result.artistName).toBe('Artist');
+    expect(result.show).toMatchObject({ eventDate: '2024-06-21', venueName: 'Wembley Stadium' });
+    expect(result.songs.map((song) => [song.name, song.position, song.encore])).toEqual([
+      ['B', 1, 0],
+      ['A', 2, 0],
+      ['C', 3, 1],
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isIsoDate,
+  matchesFilters,
+  ShowDetails,
+  summarizeShows,
+  toIsoDate,
+} from '../../src/setlist-filter.js';
+
+const show: ShowDetails = {
+  eventDate: '2024-06-21',
+  tourName: 'The Eras Tour',
+  venueName: 'Wembley Stadium',
+  cityName: 'London',
+  countryCode: 'GB',
+};
+
+describe('toIsoDate', () => {
+  it('converts setlist.fm dates', () => {
+    expect(toIsoDate('21-06-2024')).toBe('2024-06-21');
+  });
+});
+
+describe('isIsoDate', () => {
+  it('accepts real calendar dates only', () => {
+    expect(isIsoDate('2024-02-29')).toBe(true);
+    expect(isIsoDate('2023-02-29')).toBe(false);
+    expect(isIsoDate('21-06-2024')).toBe(false);
+  });
+});
+
+describe('matchesFilters', () => {
+  it('matches when no filters are set', () => {
+    expect(matchesFilters(show, {})).toBe(true);
+  });
+
+  it('applies inclusive date ranges', () => {
+    expect(matchesFilters(show, { dateFrom: '2024-06-21', dateTo: '2024-06-21' })).toBe(true);
+    expect(matchesFilters(show, { dateFrom: '2024-06-22' })).toBe(false);
+    expect(matchesFilters(show, { dateTo: '2024-06-20' })).toBe(false);
+  });
+
+  it('matches tour, city and venue case-insensitively', () => {
+    expect(matchesFilters(show, { tourName: 'eras', cityName: 'london', venueName: 'WEMBLEY' }))
+      .toBe(true);
+    expect(matchesFilters(show, { cityName: 'Paris' })).toBe(false);
+  });
+
+  it('matches the country code exactly', () => {
+    expect(matchesFilters(show, { countryCode: 'gb' })).toBe(true);
+    expect(matchesFilters(show, { countryCode: 'G' })).toBe(false);
+  });
+});
+
+describe('summarizeShows', () => {
+  it('reports the date range and the tour and venue all shows share', () => {
+    const shows = [
+      show,
+      { ...show, eventDate: '2024-06-22' },
+      { ...show, eventDate: '2024-06-20', venueName: 'Anfield' },
+    ];
+
+    expect(summarizeShows(shows)).toEqual({
+      dateRange: { from: '2024-06-20', to: '2024-06-22' },
+      tourName: 'The Eras Tour',
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { createMemoryStore } from '../../src/cache-store.js';
+import {
+  CURRENT_YEAR_TTL_SECONDS,
+  getSetlistFm,
+  PAST_YEAR_TTL_SECONDS,
+  SETLISTFM_CACHE_NAME,
+  ttlForYear,
+} from '../../src/setlistfm-client.js';
+
+vi.mock('axios');
+
+const mockedGet = vi.mocked(axios.get);
+
+describe('getSetlistFm', () => {
+  beforeEach(async () => {
+    mockedGet.mockReset();
+    vi.mocked(axios.isAxiosError).mockReturnValue(true);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await createMemoryStore(SETLISTFM_CACHE_NAME).deletePrefix('');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves fresh responses from the cache', async () => {
+    mockedGet.mockResolvedValueOnce({ data: { total: 1 } });
+
+    await getSetlistFm('/artist/abc/setlists', { year: 2020, p: 1 }, 'key', 60);
+    const cached = await getSetlistFm('/artist/abc/setlists', { p: 1, year: 2020 }, 'key', 60);
+
+    expect(mockedGet).toHaveBeenCalledTimes(1);
+    expect(cached).toEqual({ total: 1 });
+  });
+
+  it('caches 404 responses as empty results', async () => {
+    mockedGet.mockRejectedValueOnce({ response: { status: 404 }, message: 'Not Found' });
+
+    expect(await getSetlistFm('/setlist/missing', {}, 'key', 60)).toBeNull();
+    expect(await getSetlistFm('/setlist/missing', {}, 'key', 60)).toBeNull();
+    expect(mockedGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves a stale response when setlist.fm keeps failing', async () => {
+    vi.useFakeTimers();
+    mockedGet
+      .mockResolvedValueOnce({ data: { total: 1 } })
+      .mockRejectedValue({ response: { status: 400 }, message: 'Bad Request' });
+
+    await getSetlistFm('/artist/abc', {}, 'key', 60);
+    vi.advanceTimersByTime(61_000);
+
+    expect(await getSetlistFm('/artist/abc', {}, 'key', 60)).toEqual({ total: 1 });
+    expect(mockedGet).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('ttlForYear', () => {
+  it('refreshes the current year much sooner than past years', () => {
+    const year = new Date().getFullYear();
+    expect(ttlForYear(year)).toBe(CURRENT_YEAR_TTL_SECONDS);
+    expect(ttlForYear(year - 1)).toBe(PAST_YEAR_TTL_SECONDS);
+  });
+});
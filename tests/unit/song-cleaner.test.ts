@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { cleanShowSongs, isPartialPerformance, splitMedley } from '../../src/song-cleaner.js';
+import { PlayedSong } from '../../src/setlist-fetcher.js';
+
+function played(name: string, extra: Partial<PlayedSong> = {}): PlayedSong {
+  return { name, encore: 0, ...extra };
+}
+
+describe('splitMedley', () => {
+  it('splits on slashes surrounded by spaces', () => {
+    expect(splitMedley('Song A / Song B')).toEqual(['Song A', 'Song B']);
+  });
+
+  it('leaves names with bare slashes alone', () => {
+    expect(splitMedley('AC/DC Tribute')).toEqual(['AC/DC Tribute']);
+  });
+});
+
+describe('isPartialPerformance', () => {
+  it('recognizes snippet and partial notes', () => {
+    expect(isPartialPerformance('Snippet')).toBe(true);
+    expect(isPartialPerformance('partial, acoustic')).toBe(true);
+    expect(isPartialPerformance('acoustic')).toBe(false);
+    expect(isPartialPerformance(undefined)).toBe(false);
+  });
+});
+
+describe('cleanShowSongs', () => {
+  const show = [
+    played('Intro', { tape: true }),
+    played(''),
+    played('Song A / Song B', { encore: 1 }),
+    played('Song C', { info: 'snippet' }),
+  ];
+
+  it('drops tapes, empty names and snippets and splits medleys by default', () => {
+    expect(cleanShowSongs(show)).toEqual([
+      played('Song A', { encore: 1 }),
+      played('Song B', { encore: 1 }),
+    ]);
+  });
+
+  it('keeps tapes and partial songs when asked to', () => {
+    const names = cleanShowSongs(show, {
+      keepTapes: true,
+      splitMedleys: false,
+      partialSongs: 'keep',
+    }).map((song) => song.name);
+
+    expect(names).toEqual(['Intro', 'Song A / Song B', 'Song C']);
+  });
+});
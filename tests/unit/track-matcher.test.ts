@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { matchAllTracks, resolveVersion, searchTrack } from '../../src/track-matcher.js';
+import { SetlistSong } from '../../src/setlist-fetcher.js';
+import { createMemoryStore } from '../../src/cache-store.js';
+import { TrackCandidate } from '../../src/track-scorer.js';
+
+vi.mock('axios');
+
+const mockedGet = vi.mocked(axios.get);
+
+function track(uri: string, name: string, artist: string, albumName = 'Album') {
+  return {
+    uri,
+    name,
+    artists: [{ name: artist }],
+    album: { name: albumName, album_type: 'album' },
+  };
+}
+
+function searchResponse(...items: TrackCandidate[]) {
+  return { data: { tracks: { items } } };
+}
+
+function song(name: string, extra: Partial<SetlistSong> = {}): SetlistSong {
+  return { name, position: 1, playCount: 1, encore: 0, ...extra };
+}
+
+describe('matchAllTracks', () => {
+  beforeEach(() => {
+    mockedGet.mockReset();
+    vi.mocked(axios.isAxiosError).mockReturnValue(false);
+  });
+
+  it('prefers the performing artist for covers', async () => {
+    mockedGet.mockResolvedValueOnce(
+      searchResponse(track('spotify:track:performer', 'Heroes', 'Peter Gabriel'))
+    );
+
+    const [result] = await matchAllTracks(
+      [song('Heroes', { cover: { artistName: 'David Bowie', mbid: 'bowie' } })],
+      'Peter Gabriel',
+      'token'
+    );
+
+    expect(mockedGet).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({
+      trackUri: 'spotify:track:performer',
+      matchedVia: 'performer',
+    });
+  });
+
+  it('falls back to the original artist when the cover is not found', async () => {
+    mockedGet
+      .mockResolvedValueOnce(searchResponse())
+      .mockResolvedValueOnce(
+        searchResponse(track('spotify:track:original', 'Heroes', 'David Bowie'))
+      );
+
+    const [result] = await matchAllTracks(
+      [song('Heroes', { cover: { artistName: 'David Bowie', mbid: 'bowie' } })],
+      'Peter Gabriel',
+      'token'
+    );
+
+    expect(mockedGet.mock.calls[1][1]?.params?.q).toBe('track:Heroes artist:David Bowie');
+    expect(result).toMatchObject({
+      trackUri: 'spotify:track:original',
+      found: true,
+      matchedVia: 'original-artist',
+    });
+  });
+
+  it('does not retry songs that are not covers', async () => {
+    mockedGet.mockResolvedValueOnce(searchResponse());
+
+    const [result] = await matchAllTracks([song('Solsbury Hill')], 'Peter Gabriel', 'token');
+
+    expect(mockedGet).toHaveBeenCalledTimes(1);
+    expect(result.found).toBe(false);
+    expect(result.matchedVia).toBeUndefined();
+  });
+
+  it('reports failed searches separately from songs without a match', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockedGet
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(searchResponse());
+
+    const results = await matchAllTracks(
+      [song('Solsbury Hill'), song('Biko')],
+      'Peter Gabriel',
+      'token',
+      { concurrency: 1 }
+    );
+
+    expect(results.map((result) => result.status)).toEqual(['failed', 'no-match']);
+    expect(results[0].error).toContain('socket hang up');
+  });
+});
+
+describe('searchTrack', () => {
+  beforeEach(() => {
+    mockedGet.mockReset();
+    vi.mocked(axios.isAxiosError).mockReturnValue(false);
+  });
+
+  it('picks the best-scoring candidate rather than the first hit', async () => {
+    mockedGet.mockResolvedValueOnce(
+      searchResponse(
+        track('spotify:track:karaoke', 'Shake It Off (Karaoke Version)', 'Karaoke Stars'),
+        track('spotify:track:live', 'Shake It Off - Live', 'Taylor Swift', 'Live in London'),
+        track('spotify:track:studio', 'Shake It Off', 'Taylor Swift', '1989')
+      )
+    );
+
+    const result = await searchTrack('Shake It Off', 'Taylor Swift', 'token');
+
+    expect(mockedGet.mock.calls[0][1]?.params?.limit).toBe(10);
+    expect(result.trackUri).toBe('spotify:track:studio');
+    expect(result.confidence).toBe(1);
+  });
+
+  it('describes the matched track for review', async () => {
+    mockedGet.mockResolvedValueOnce(
+      searchResponse({
+        ...track('spotify:track:studio', 'Shake It Off', 'Taylor Swift', '1989'),
+        album: {
+          name: '1989',
+          album_type: 'album',
+          images: [
+            { url: 'large.jpg', width: 640, height: 640 },
+            { url: 'medium.jpg', width: 300, height: 300 },
+            { url: 'small.jpg', width: 64, height: 64 },
+          ],
+        },
+      })
+    );
+
+    const result = await searchTrack('Shake It Off', 'Taylor Swift', 'token');
+
+    expect(result.track).toEqual({
+      name: 'Shake It Off',
+      artists: ['Taylor Swift'],
+      album: '1989',
+      artworkUrl: 'small.jpg',
+    });
+  });
+
+  it('reuses cached matches instead of searching again', async () => {
+    const cache = createMemoryStore('matcher-test');
+    mockedGet.mockResolvedValueOnce(
+      searchResponse(track('spotify:track:studio', 'Shake It Off', 'Taylor Swift', '1989'))
+    );
+
+    await searchTrack('Shake It Off', 'Taylor Swift', 'token', { cache });
+    const cached = await searchTrack('shake it off', 'Taylor Swift', 'token', { cache });
+
+    expect(mockedGet).toHaveBeenCalledTimes(1);
+    expect(cached).toMatchObject({ trackUri: 'spotify:track:studio', status: 'matched' });
+  });
+
+  it('rejects candidates below the confidence threshold', async () => {
+    mockedGet.mockResolvedValueOnce(
+      searchResponse(track('spotify:track:other', 'Shake It Up', 'Tribute Band'))
+    );
+
+    const result = await searchTrack('Shake It Off', 'Taylor Swift', 'token');
+
+    expect(result.found).toBe(false);
+    expect(result.trackUri).toBeNull();
+    expect(result.confidence).toBeLessThan(0.7);
+  });
+});
+
+describe('version preferences', () => {
+  beforeEach(() => {
+    mockedGet.mockReset();
+    vi.mocked(axios.isAxiosError).mockReturnValue(false);
+  });
+
+  it('prefers live recordings when asked to', async () => {
+    mockedGet.mockResolvedValueOnce(
+      searchResponse(
+        track('spotify:track:studio', 'Shake It Off', 'Taylor Swift', '1989'),
+        track('spotify:track:live', 'Shake It Off - Live', 'Taylor Swift', 'Live in London')
+      )
+    );
+
+    const result = await searchTrack('Shake It Off', 'Taylor Swift', 'token', {
+      version: 'live',
+    });
+
+    expect(mockedGet.mock.calls[0][1]?.params?.q).toBe(
+      'track:Shake It Off artist:Taylor Swift live'
+    );
+    expect(result.trackUri).toBe('spotify:track:live');
+  });
+
+  it('falls back to the studio recording when no live version exists', async () => {
+    mockedGet
+      .mockResolvedValueOnce(searchResponse())
+      .mockResolvedValueOnce(
+        searchResponse(track('spotify:track:studio', 'Shake It Off', 'Taylor Swift', '1989'))
+      );
+
+    const result = await searchTrack('Shake It Off', 'Taylor Swift', 'token', {
+      version: 'live',
+    });
+
+    expect(mockedGet).toHaveBeenCalledTimes(2);
+    expect(result.trackUri).toBe('spotify:track:studio');
+  });
+
+  it('follows the setlist note when matching as played', () => {
+    expect(resolveVersion('as-played', song('Song', { info: 'Acoustic' }))).toBe('acoustic');
+    expect(resolveVersion('as-played', song('Song'))).toBe('studio');
+    expect(resolveVersion('live', song('Song', { info: 'Acoustic' }))).toBe('live');
+  });
+});
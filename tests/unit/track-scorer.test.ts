@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeTitle,
+  scoreCandidate,
+  titleSimilarity,
+  unwantedVersions,
+  TrackCandidate,
+} from '../../src/track-scorer.js';
+
+function candidate(name: string, artist: string, albumType = 'album', albumName = 'Album') {
+  return {
+    uri: 'spotify:track:x',
+    name,
+    artists: [{ name: artist }],
+    album: { name: albumName, album_type: albumType },
+  } satisfies TrackCandidate;
+}
+
+describe('normalizeTitle', () => {
+  it('drops accents, punctuation, brackets and remaster suffixes', () => {
+    expect(normalizeTitle('Café del Mar (Radio Edit)')).toBe('cafe del mar');
+    expect(normalizeTitle("Don't Stop Me Now - Remastered 2011")).toBe('dont stop me now');
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('is 1 for titles that only differ in formatting', () => {
+    expect(titleSimilarity('Heroes - 2017 Remaster', 'heroes')).toBe(1);
+  });
+
+  it('is lower for different titles', () => {
+    expect(titleSimilarity('Shake It Up', 'Shake It Off')).toBeLessThan(1);
+  });
+});
+
+describe('unwantedVersions', () => {
+  it('ignores markers the setlist song itself contains', () => {
+    expect(unwantedVersions(candidate('Song (Live)', 'A'), 'Song')).toEqual(['live']);
+    expect(unwantedVersions(candidate('Live Forever', 'A'), 'Live Forever')).toEqual([]);
+  });
+});
+
+describe('scoreCandidate', () => {
+  it('prefers albums over compilations', () => {
+    const album = scoreCandidate(candidate('Song', 'Artist'), 'Song', 'Artist');
+    const compilation = scoreCandidate(
+      candidate('Song', 'Artist', 'compilation'),
+      'Song',
+      'Artist'
+    );
+
+    expect(album).toBe(1);
+    expect(compilation).toBeLessThan(album);
+  });
+
+  it('penalizes karaoke and other artists', () => {
+    expect(
+      scoreCandidate(candidate('Song (Karaoke Version)', 'Artist'), 'Song', 'Artist')
+    ).toBeLessThan(0.7);
+    expect(scoreCandidate(candidate('Song', 'Someone Else'), 'Song', 'Artist')).toBeLessThan(0.7);
+  });
+
+  it('rejects a similarly named song by the same artist', () => {
+    expect(
+      scoreCandidate(candidate('Fade to Blue', 'Metallica'), 'Fade to Black', 'Metallica')
+    ).toBe(0);
+    expect(scoreCandidate(candidate('Bad Seed', 'Metallica'), 'Battery', 'Metallica')).toBe(0);
+    expect(
+      scoreCandidate(candidate('Fade to Black - Remastered', 'Metallica'), 'Fade to Black', 'Metallica')
+    ).toBe(1);
+  });
+
+  it('checks credits against a pinned artist ID, including featured artists', () => {
+    const featuring = {
+      ...candidate('Song', 'Headliner'),
+      artists: [{ id: 'headliner', name: 'Headliner' }, { id: 'pinned', name: 'Artist' }],
+    };
+    const namesake = {
+      ...candidate('Song', 'Artist'),
+      artists: [{ id: 'namesake', name: 'Artist' }],
+    };
+
+    expect(scoreCandidate(featuring, 'Song', 'Artist', { artistId: 'pinned' })).toBe(1);
+    expect(scoreCandidate(namesake, 'Song', 'Artist', { artistId: 'pinned' })).toBeLessThan(0.7);
+  });
+});